@@ -0,0 +1,75 @@
+// Pathfinder service worker: keeps the app shell and visited pages available offline.
+// Trip data itself lives in IndexedDB (see src/lib/offline.ts); this only caches what the browser loads.
+
+const CACHE = "pathfinder-v3";
+const PRECACHE = ["/", "/dashboard", "/offline", "/manifest.webmanifest", "/icon.svg", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+self.addEventListener("install", (event) => {
+    event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+// Drop caches from older versions of this file
+self.addEventListener("activate", (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// The dashboard asks for the user's trip pages to be cached ahead of time, so they open offline without a visit first
+self.addEventListener("message", (event) => {
+    if (event.data?.type !== "precache" || !Array.isArray(event.data.urls)) return;
+    event.waitUntil(
+        caches.open(CACHE).then((cache) =>
+            Promise.all(event.data.urls.map((url) => cache.add(url).catch(() => undefined)))
+        )
+    );
+});
+
+// Responses the server marks no-store (share links, which can be revoked or expire) are never kept
+const isCacheable = (response) => response.ok && !/\bno-store\b/i.test(response.headers.get("Cache-Control") || "");
+
+const networkFirst = async (request, fallbackUrl) => {
+    const cache = await caches.open(CACHE);
+    try {
+        const response = await fetch(request);
+        if (isCacheable(response)) cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request, { ignoreVary: true });
+        if (cached) return cached;
+        if (fallbackUrl) {
+            const fallback = await cache.match(fallbackUrl);
+            if (fallback) return fallback;
+        }
+        throw error;
+    }
+};
+
+// Build output is content-hashed, so a cached copy is always right
+const cacheFirst = async (request) => {
+    const cache = await caches.open(CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+};
+
+self.addEventListener("fetch", (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    // Only our own GETs; API routes, share links and Supabase always go to the network
+    if (request.method !== "GET" || url.origin !== self.location.origin) return;
+    if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/share/")) return;
+
+    if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/_next/image")) {
+        event.respondWith(cacheFirst(request));
+    } else if (request.mode === "navigate") {
+        event.respondWith(networkFirst(request, "/offline"));
+    } else {
+        event.respondWith(networkFirst(request));
+    }
+});
@@ -1,47 +1,63 @@
-import { google } from "@ai-sdk/google";
 import { generateObject } from "ai";
-import { z } from "zod";
+import { getAiProvider } from "@/lib/aiProvider";
+import { alternativesFixture } from "@/lib/aiFixtures";
+import { DEFAULT_CURRENCY, getCurrency } from "@/lib/currency";
+import { alternativesSchema, costInstructions } from "@/lib/aiSchemas";
+import { formatCost, normalizeCost } from "@/lib/cost";
 
 export async function POST(req: Request) {
+    const ai = getAiProvider();
+    const configError = ai.configError();
+    if (configError) {
+        return Response.json({ error: configError }, { status: 500 });
+    }
+
     try {
         const body = await req.json();
         const { destination, currentActivity, preferences, timeSlot } = body;
-
-        const alternativesSchema = z.object({
-            alternatives: z.array(z.object({
-                name: z.string(),
-                description: z.string(),
-                time: z.string(),
-                cost: z.string()
-            }))
-        });
+        const currency = getCurrency(body.currency || DEFAULT_CURRENCY);
 
         const prompt = `
       You are an expert travel planner for ${destination}.
       The user wants to replace an activity in their itinerary.
       
-      Current Activity: "${currentActivity.name}" (${currentActivity.description})
-      Time Slot: ${timeSlot}
+      Current Activity: "${currentActivity.name}" (${currentActivity.description}), currently ${formatCost(normalizeCost(currentActivity.cost, currency.code))}
+      Time: ${timeSlot || currentActivity.time}
+      Activity Type: ${currentActivity.type || "sight"}
       User Preferences: ${preferences || "General tourist highlights"}
       
-      Please suggest 3 distinct, high-quality alternative activities for this specific time slot in ${destination}.
-      They should be different from the current activity but fit the same time slot logic.
+      Please suggest 3 distinct, high-quality alternative activities for this time of day in ${destination}.
+      They should be different from the current activity but fit the same time of day.
+      Keep the same activity type (a meal stays a meal, a sight stays a sight).
       Keep descriptions punchy and under 20 words.
       
       Provide:
       - Name
       - Description
       - Time (Keep it: "${currentActivity.time}")
-      - Cost (Estimated in IDR, e.g. "Rp 50.000" or "Free". IMPORTANT: Single value ONLY, NO ranges like "20k-50k")
+      - Cost (Estimated in ${currency.code})
+      ${costInstructions(currency.code)}
     `;
 
         const result = await generateObject({
-            model: google("gemini-2.5-flash"),
+            model: ai.languageModel(() => alternativesFixture({
+                destination,
+                currency: currency.code,
+                times: [0, 1, 2].map(() => currentActivity.time),
+                type: currentActivity.type,
+                exclude: [currentActivity.name],
+            })),
             schema: alternativesSchema,
             prompt: prompt,
         });
 
-        return Response.json(result.object);
+        // Amounts are in the trip currency whatever the model labelled them
+        return Response.json({
+            alternatives: result.object.alternatives.map((alt) => ({
+                ...alt,
+                cost: { ...alt.cost, currency: currency.code },
+            })),
+        });
 
     } catch (error) {
         console.error("Regenerate API Error:", error);
@@ -0,0 +1,79 @@
+import { generateObject } from "ai";
+import { getAiProvider } from "@/lib/aiProvider";
+import { alternativesFixture, freeTimes } from "@/lib/aiFixtures";
+import { DEFAULT_CURRENCY, getCurrency } from "@/lib/currency";
+import { alternativesSchema, costInstructions } from "@/lib/aiSchemas";
+import { formatCost, normalizeCost } from "@/lib/cost";
+import { Activity } from "@/components/ItineraryDisplay";
+
+// Like /api/activity/regenerate, but proposes a new activity for a day instead of replacing one
+export async function POST(req: Request) {
+    const ai = getAiProvider();
+    const configError = ai.configError();
+    if (configError) {
+        return Response.json({ error: configError }, { status: 500 });
+    }
+
+    try {
+        const body = await req.json();
+        const { destination, dayNumber, preferences } = body;
+        const activities: Partial<Activity>[] = body.activities || [];
+        const currency = getCurrency(body.currency || DEFAULT_CURRENCY);
+
+        const schedule = activities.length > 0
+            ? activities.map((activity) =>
+                `        - ${activity.time || "Any time"}: [${activity.type || "sight"}] "${activity.name}" (${formatCost(normalizeCost(activity.cost, currency.code))})`
+            ).join("\n")
+            : "        (nothing planned yet)";
+
+        const prompt = `
+      You are an expert travel planner for ${destination}.
+      The user wants to ADD an activity to Day ${dayNumber || 1} of their itinerary.
+
+      Day ${dayNumber || 1} currently looks like this, in order:
+${schedule}
+
+      User Preferences: ${preferences || "General tourist highlights"}
+
+      Please suggest 3 distinct, high-quality activities that fit into a free gap in this day.
+      - Pick a time that does not overlap the existing activities, leaving realistic travel time around it.
+      - Suggest a meal only if the day is missing lunch or dinner at that time.
+      - Do not repeat anything already planned.
+      Keep descriptions punchy and under 20 words.
+
+      Provide:
+      - Type
+      - Name
+      - Description
+      - Time (e.g. "03:00 PM")
+      - Cost (Estimated in ${currency.code})
+      ${costInstructions(currency.code)}
+    `;
+
+        const result = await generateObject({
+            model: ai.languageModel(() => alternativesFixture({
+                destination,
+                currency: currency.code,
+                times: freeTimes(activities.map((activity) => activity.time), 3),
+                exclude: activities.flatMap((activity) => activity.name ? [activity.name] : []),
+            })),
+            schema: alternativesSchema,
+            prompt: prompt,
+        });
+
+        // Amounts are in the trip currency whatever the model labelled them
+        return Response.json({
+            alternatives: result.object.alternatives.map((alt) => ({
+                ...alt,
+                cost: { ...alt.cost, currency: currency.code },
+            })),
+        });
+
+    } catch (error) {
+        console.error("Suggest API Error:", error);
+        return Response.json(
+            { error: "Failed to suggest activities" },
+            { status: 500 }
+        );
+    }
+}
@@ -1,88 +1,39 @@
-import { google } from "@ai-sdk/google";
-import { generateObject } from "ai";
-import { z } from "zod";
-
-export const maxDuration = 60;
-
-// Schema for the response structure we want the AI to return
-const itinerarySchema = z.object({
-    itinerary: z.array(z.object({
-        day: z.number(),
-        date: z.string(),
-        activities: z.object({
-            morning: z.object({
-                name: z.string(),
-                description: z.string(),
-                time: z.string(),
-                cost: z.string(),
-            }),
-            lunch: z.object({
-                name: z.string(),
-                description: z.string(),
-                time: z.string(),
-                cost: z.string(),
-            }),
-            afternoon: z.object({
-                name: z.string(),
-                description: z.string(),
-                time: z.string(),
-                cost: z.string(),
-            }),
-            dinner: z.object({
-                name: z.string(),
-                description: z.string(),
-                time: z.string(),
-                cost: z.string(),
-            }),
-            evening: z.object({
-                name: z.string(),
-                description: z.string(),
-                time: z.string(),
-                cost: z.string(),
-            }),
-        }),
-    })),
-    budget: z.object({
-        accommodation: z.number(),
-        food: z.number(),
-        activities: z.number(),
-        transport: z.number(),
-        misc: z.number(),
-        total: z.number(),
-        currency: z.string(),
-    }),
-    weather: z.object({
-        summary: z.string(), // e.g. "Sunny and warm"
-        temperature: z.string(), // e.g. "25-30°C"
-    }),
-    hotels: z.array(z.object({
-        name: z.string(),
-        address: z.string(),
-        description: z.string(),
-        price_per_night: z.string(),
-        currency: z.string(),
-        booking_url_query: z.string(),
-        category: z.string(), // e.g. "Best Value", "Budget", "Luxury"
-    })),
-});
+import { generateObject, streamObject } from "ai";
+import { getAiProvider } from "@/lib/aiProvider";
+import { itineraryFixture } from "@/lib/aiFixtures";
+import { validateAndRepair } from "@/lib/tripValidation";
+import { DEFAULT_BUDGET_MODE, enforceBudget } from "@/lib/budgetEnforcement";
+import { cheaperActivityFinder } from "@/lib/cheaperActivities";
+import { GeneratedTrip, GenerationEvent } from "@/lib/generationStream";
+import { itinerarySchema, daysSchema, costInstructions } from "@/lib/aiSchemas";
+import { normalizeItinerary, withCurrency } from "@/lib/itineraries";
+import { DEFAULT_CURRENCY, convert, formatMoney, getCurrency } from "@/lib/currency";
+
+// Long trips stream for well over a minute; the stream keeps the connection alive meanwhile
+export const maxDuration = 300;
 
 export async function POST(req: Request) {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-    if (!apiKey || apiKey === "your_api_key_here") {
-        return Response.json({ error: "Invalid API Key: Please check .env.local" }, { status: 500 });
+    const ai = getAiProvider();
+    const configError = ai.configError();
+    if (configError) {
+        return Response.json({ error: configError }, { status: 500 });
     }
 
-    console.log("API Key loaded:", apiKey?.substring(0, 8) + "...");
-
     try {
         const body = await req.json();
         const { destination, days, budget, travelers, interests, pace, dateRange } = body;
+        const currency = getCurrency(body.currency || DEFAULT_CURRENCY);
+        const budgetMode = body.budgetMode === "advisory" || body.budgetMode === "strict" ? body.budgetMode : DEFAULT_BUDGET_MODE;
+
+        // USD reference helps the model judge scale for currencies it handles less often
+        const budgetInUsd = currency.code === "USD" ? null : await convert(budget, currency.code, "USD").catch(() => null);
+        const exampleCost = formatMoney(currency.decimals === 0 ? 50000 : 12.5, currency.code);
 
-        let prompt = `
+        const prompt = `
       Plan a ${days}-day trip to ${destination} for ${travelers} people.
       Date Range: ${dateRange?.from} to ${dateRange?.to} (Calculate exact dates).
       
-      Budget Limit: ${budget} IDR (Total for ALL ${travelers} travelers combined).
+      Budget Limit: ${formatMoney(budget, currency.code)} ${currency.code} (Total for ALL ${travelers} travelers combined).${budgetInUsd ? ` Roughly ${Math.round(budgetInUsd)} USD.` : ""}
       
       IMPORTANT: This is a LIMIT, not a target. Minimize costs where possible while maintaining quality. 
       Do not try to spend the entire budget if cheaper good options exist.
@@ -96,16 +47,18 @@ export async function POST(req: Request) {
       - If it is peak season(e.g.summer holidays), suggest avoiding crowds or booking early.
       - If it is a special season(e.g.Cherry Blossoms), highlight relevant spots.
 
-      Generate a detailed day - by - day itinerary with:
-        - Morning: Attraction / Activity
-            - Lunch: Restaurant recommendation
-                - Afternoon: Attraction / Activity
-                    - Dinner: Restaurant recommendation
-                        - Evening: Optional activity
+      Generate a detailed day - by - day itinerary. Each day is an ORDERED list of activities (earliest first), each with a type:
+        - "sight": Attraction / Activity
+        - "meal": Restaurant recommendation (include lunch and dinner every full day)
+        - "transit": Only for notable journeys (airport transfer, intercity train, ferry)
+        - "rest": Downtime at the hotel, spa, beach lounging
+        - "custom": Anything else
+      Match the number of activities to the pace: Relaxed 3-4, Moderate 4-6, Packed 6-8 per day.
+      Arrival and departure days should be lighter.
 
       Ensure realistic timing(travel time considered) and variety in activities.
       Also provide:
-        1. A budget breakdown in IDR.
+        1. A budget breakdown in ${currency.code}, with currency set to "${currency.code}".
       2. A brief weather summary for the trip dates.
       3. ** THREE(3) ** Specific Hotel Recommendations fitting the location and budget:
         - Option 1: ** Best Value ** (Great balance of price, location, and comfort)
@@ -113,17 +66,79 @@ export async function POST(req: Request) {
         - Option 3: ** Luxury / Treat ** (A nicer stay if budget allows, or "worth the splurge")
         - For each, provide a clear 'booking_url_query' and a 'category' label.
 
-            IMPORTANT: All costs(activities, food, etc.) MUST be in IDR(Indonesian Rupiah), e.g. "Rp 50.000".
-                CRITICAL: Provide a SINGLE estimated cost value, NOT a range.Do NOT use "20.000-50.000".Pick a specific realistic number.
+            IMPORTANT: All costs(activities, food, hotels, etc.) MUST be in ${currency.code} (${currency.name}). Hotel prices are text formatted like "${exampleCost}".
+      ${costInstructions(currency.code)}
     `;
 
-        const result = await generateObject({
-            model: google("gemini-2.5-flash"),
+        const fixture = () => itineraryFixture({ destination, days, budget, travelers, currency: currency.code, pace, dateRange });
+
+        const result = streamObject({
+            model: ai.languageModel(fixture),
             schema: itinerarySchema,
             prompt: prompt,
+            onError: ({ error }) => console.error("AI Generation stream failed:", error),
+        });
+
+        // Second, smaller generation for days the validation pass couldn't repair by itself
+        const regenerateDays = async (dayNumbers: number[], current: GeneratedTrip) => {
+            const planned = current.itinerary
+                .filter((day) => !dayNumbers.includes(day.day))
+                .flatMap((day) => day.activities.map((activity) => activity.name));
+
+            const { object } = await generateObject({
+                model: ai.languageModel(() => ({ days: fixture().itinerary.filter((day) => dayNumbers.includes(day.day)) })),
+                schema: daysSchema,
+                prompt: `${prompt}
+      An earlier answer left ${dayNumbers.length === 1 ? "this day" : "these days"} missing or unusable: Day ${dayNumbers.join(", ")}.
+      Plan ONLY ${dayNumbers.length === 1 ? "that day" : "those days"}, using the same day numbers, and return nothing else.
+      Other days already include: ${planned.join("; ") || "nothing yet"}. Do not repeat them.
+    `,
+            });
+            return withCurrency(normalizeItinerary(object.days, currency.code), currency.code);
+        };
+
+        // Newline-delimited JSON: one "partial" event per parsed chunk, then "done" or "error"
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream({
+            async start(controller) {
+                const send = (event: GenerationEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+
+                try {
+                    for await (const partial of result.partialObjectStream) {
+                        send({ type: "partial", object: partial });
+                    }
+                    const generated = await result.object;
+                    // The model sometimes labels currencies inconsistently; amounts are in the requested currency
+                    const repaired = await validateAndRepair({
+                        ...generated,
+                        itinerary: withCurrency(normalizeItinerary(generated.itinerary, currency.code), currency.code),
+                        budget: { ...generated.budget, currency: currency.code },
+                    }, { days: Number(days), currency: currency.code, dateRange }, regenerateDays);
+
+                    const { trip, check } = await enforceBudget(repaired.trip, {
+                        mode: budgetMode,
+                        limit: Number(budget),
+                        travelers: Number(travelers),
+                        currency: currency.code,
+                    }, cheaperActivityFinder(ai, { destination, days: Number(days), travelers: Number(travelers), limit: Number(budget), currency: currency.code }));
+
+                    if (repaired.warnings.length > 0) console.warn("Repaired generated trip:", repaired.warnings);
+                    send({ type: "done", object: trip, warnings: repaired.warnings, budgetCheck: check });
+                } catch (error) {
+                    console.error("AI Generation failed:", error);
+                    send({ type: "error", error: error instanceof Error ? error.message : "Unknown error occurred" });
+                } finally {
+                    controller.close();
+                }
+            },
         });
 
-        return Response.json(result.object);
+        return new Response(stream, {
+            headers: {
+                "Content-Type": "application/x-ndjson; charset=utf-8",
+                "Cache-Control": "no-cache",
+            },
+        });
     } catch (error) {
         console.error("AI Generation failed:", error);
         const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
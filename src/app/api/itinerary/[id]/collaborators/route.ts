@@ -0,0 +1,106 @@
+import { authorizeItineraryRequest } from "@/lib/supabaseServer";
+import { CollaboratorRole, canManage } from "@/lib/permissions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ROLES: CollaboratorRole[] = ["editor", "viewer"];
+
+// Everyone on the trip can see who else is on it
+export async function GET(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const access = await authorizeItineraryRequest(req, id);
+    if (access.error) return access.error;
+
+    const { data, error } = await access.client
+        .from('itinerary_collaborators')
+        .select('*')
+        .eq('itinerary_id', id)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error("Collaborators API Error:", error);
+        return Response.json({ error: "Failed to load collaborators" }, { status: 500 });
+    }
+    return Response.json({ role: access.role, collaborators: data });
+}
+
+// Invite by email (owner only); re-inviting someone changes their role
+export async function POST(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const access = await authorizeItineraryRequest(req, id);
+    if (access.error) return access.error;
+    if (!canManage(access.role)) return Response.json({ error: "Only the trip owner can invite people" }, { status: 403 });
+
+    const { email, role } = await req.json();
+    if (!email || typeof email !== "string" || !ROLES.includes(role)) {
+        return Response.json({ error: "An email and a role (editor or viewer) are required" }, { status: 400 });
+    }
+
+    const { data, error } = await access.client.rpc('invite_collaborator', {
+        target_itinerary: id,
+        invitee_email: email,
+        invitee_role: role,
+    });
+
+    if (error) {
+        // The function raises readable messages for the expected cases
+        const status = error.code === "P0002" ? 404 : error.code === "42501" ? 403 : error.code === "22023" ? 400 : 500;
+        if (status === 500) console.error("Collaborators API Error:", error);
+        return Response.json({ error: status === 500 ? "Failed to invite collaborator" : error.message }, { status });
+    }
+    return Response.json({ collaborator: data });
+}
+
+// Change a collaborator's role (owner only)
+export async function PATCH(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const access = await authorizeItineraryRequest(req, id);
+    if (access.error) return access.error;
+    if (!canManage(access.role)) return Response.json({ error: "Only the trip owner can change roles" }, { status: 403 });
+
+    const { collaboratorId, role } = await req.json();
+    if (!collaboratorId || !ROLES.includes(role)) {
+        return Response.json({ error: "A collaborator and a role (editor or viewer) are required" }, { status: 400 });
+    }
+
+    const { data, error } = await access.client
+        .from('itinerary_collaborators')
+        .update({ role })
+        .eq('id', collaboratorId)
+        .eq('itinerary_id', id)
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        console.error("Collaborators API Error:", error);
+        return Response.json({ error: "Failed to update role" }, { status: 500 });
+    }
+    if (!data) return Response.json({ error: "Collaborator not found" }, { status: 404 });
+    return Response.json({ collaborator: data });
+}
+
+// Remove a collaborator (owner), or leave the trip (the collaborator themselves)
+export async function DELETE(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const access = await authorizeItineraryRequest(req, id);
+    if (access.error) return access.error;
+
+    const collaboratorId = new URL(req.url).searchParams.get("collaboratorId");
+    if (!collaboratorId) return Response.json({ error: "collaboratorId is required" }, { status: 400 });
+
+    let query = access.client
+        .from('itinerary_collaborators')
+        .delete()
+        .eq('id', collaboratorId)
+        .eq('itinerary_id', id);
+    if (!canManage(access.role)) query = query.eq('user_id', access.user.id);
+
+    const { data, error } = await query.select();
+
+    if (error) {
+        console.error("Collaborators API Error:", error);
+        return Response.json({ error: "Failed to remove collaborator" }, { status: 500 });
+    }
+    if (!data || data.length === 0) return Response.json({ error: "Collaborator not found" }, { status: 404 });
+    return Response.json({ removed: collaboratorId });
+}
@@ -0,0 +1,46 @@
+import { authorizeItineraryRequest } from "@/lib/supabaseServer";
+import { ItineraryRow, rowToSavedTrip } from "@/lib/itineraries";
+import { buildItineraryPdf, pdfFileName } from "@/lib/pdf";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The same document as the PDF button in TripView, rendered on the server for email and automation.
+// Anyone on the trip (owner, editor or viewer) may download it; the row is read as the caller, so RLS applies too.
+export async function GET(req: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const access = await authorizeItineraryRequest(req, id);
+    if (access.error) return access.error;
+
+    const { data, error } = await access.client
+        .from('itineraries')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+    if (error || !data) {
+        if (error) console.error("PDF API Error:", error);
+        return Response.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const trip = rowToSavedTrip(data as ItineraryRow);
+    const pdf = buildItineraryPdf({
+        tripData: trip.tripData,
+        itinerary: trip.itinerary,
+        budget: trip.budget,
+        weather: trip.weather,
+        hotels: trip.hotels,
+    }).output("arraybuffer");
+
+    // ASCII fallback plus the UTF-8 name for destinations like "Zürich"
+    const fileName = pdfFileName(trip.tripData);
+    const asciiName = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+
+    return new Response(pdf, {
+        headers: {
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+            "Content-Length": String(pdf.byteLength),
+            "Cache-Control": "private, no-store",
+        },
+    });
+}
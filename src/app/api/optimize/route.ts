@@ -0,0 +1,39 @@
+import { getAiProvider } from "@/lib/aiProvider";
+import { enforceBudget } from "@/lib/budgetEnforcement";
+import { cheaperActivityFinder } from "@/lib/cheaperActivities";
+import { normalizeItinerary, withCurrency } from "@/lib/itineraries";
+import { DEFAULT_CURRENCY, getCurrency } from "@/lib/currency";
+
+// Cost reduction for a trip that is already planned: same days, same schedule, cheaper picks
+export async function POST(req: Request) {
+    const ai = getAiProvider();
+    const configError = ai.configError();
+    if (configError) {
+        return Response.json({ error: configError }, { status: 500 });
+    }
+
+    try {
+        const body = await req.json();
+        const { destination, travelers, limit, itinerary, budget, hotels } = body;
+        const currency = getCurrency(body.currency || DEFAULT_CURRENCY);
+
+        if (!Array.isArray(itinerary) || !budget || !(Number(limit) > 0)) {
+            return Response.json({ error: "An itinerary, its budget and a budget limit are required" }, { status: 400 });
+        }
+
+        const days = normalizeItinerary(itinerary, currency.code);
+        const { trip, check } = await enforceBudget(
+            { itinerary: withCurrency(days, currency.code), budget: { ...budget, currency: currency.code }, hotels: Array.isArray(hotels) ? hotels : [] },
+            { mode: "strict", limit: Number(limit), travelers: Number(travelers) || 1, currency: currency.code },
+            cheaperActivityFinder(ai, { destination, days: days.length, travelers: Number(travelers) || 1, limit: Number(limit), currency: currency.code }),
+        );
+
+        return Response.json({ itinerary: trip.itinerary, budget: trip.budget, budgetCheck: check });
+    } catch (error) {
+        console.error("Optimize API Error:", error);
+        return Response.json(
+            { error: "Failed to find cheaper options" },
+            { status: 500 }
+        );
+    }
+}
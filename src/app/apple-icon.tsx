@@ -0,0 +1,9 @@
+import { renderAppIcon } from "@/lib/appIcon";
+
+// Home screen icon for iOS, which ignores the manifest icons. iOS rounds the corners itself.
+export const size = { width: 180, height: 180 };
+export const contentType = "image/png";
+
+export default function AppleIcon() {
+    return renderAppIcon(size.width, { maskable: true });
+}
@@ -1,13 +1,20 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
 import Link from "next/link";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calendar, Plus, Compass } from "lucide-react";
+import { Calendar, Plus, Compass, Users, Upload, Loader2, WifiOff, MonitorDown } from "lucide-react";
 import { toast } from "sonner";
 import { UserNav } from "@/components/UserNav";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { CollaboratorRole, ROLE_LABELS } from "@/lib/permissions";
+import { savedTripToRow } from "@/lib/itineraries";
+import { parseTripExport } from "@/lib/tripFormats";
+import { cacheTrips, confirmSignOut, getCachedTrips, isNetworkError } from "@/lib/offline";
+import { useInstallPrompt } from "@/hooks/useInstallPrompt";
 
 interface SavedItinerary {
     id: string;
@@ -17,16 +24,59 @@ interface SavedItinerary {
     budget_breakdown: { total: number; currency: string };
 }
 
+interface SharedItinerary extends SavedItinerary {
+    role: CollaboratorRole;
+}
+
+// A collaborator row with its trip embedded (itinerary_id is a to-one link, so the trip comes back as an object)
+interface CollaboratorWithTrip {
+    role: CollaboratorRole;
+    itineraries: SavedItinerary | null;
+}
+
 export default function Dashboard() {
     const [itineraries, setItineraries] = useState<SavedItinerary[]>([]);
+    const [sharedItineraries, setSharedItineraries] = useState<SharedItinerary[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [userEmail, setUserEmail] = useState("");
+    const [isImporting, setIsImporting] = useState(false);
+    const [isOfflineCopy, setIsOfflineCopy] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { canInstall, install } = useInstallPrompt();
+    const router = useRouter();
 
     useEffect(() => {
+        // Without a connection, show the copies saved on this device the last time the dashboard loaded.
+        // The session is read from local storage, so this works offline.
+        const loadOfflineCopies = async () => {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session) {
+                window.location.href = "/auth";
+                return;
+            }
+
+            const cached = await getCachedTrips();
+            setUserEmail(session.user.email || "");
+            setItineraries(cached
+                .filter((trip) => trip.user_id === session.user.id)
+                .sort((a, b) => b.created_at.localeCompare(a.created_at)));
+            setIsOfflineCopy(true);
+            setIsLoading(false);
+        };
+
         const fetchItineraries = async () => {
-            const { data: { user } } = await supabase.auth.getUser();
+            if (!navigator.onLine) {
+                await loadOfflineCopies();
+                return;
+            }
+
+            const { data: { user }, error: userError } = await supabase.auth.getUser();
 
             if (!user) {
+                if (isNetworkError(userError)) {
+                    await loadOfflineCopies();
+                    return;
+                }
                 window.location.href = "/auth";
                 return;
             }
@@ -40,10 +90,37 @@ export default function Dashboard() {
                 .order('created_at', { ascending: false });
 
             if (error) {
+                if (isNetworkError(error)) {
+                    await loadOfflineCopies();
+                    return;
+                }
                 console.error("Error fetching trips:", error);
                 toast.error("Failed to load your trips.");
             } else {
                 setItineraries(data || []);
+
+                // Keep offline copies of every trip and have the service worker fetch their pages ahead of time
+                cacheTrips(data || []).catch((cacheError) => console.error("Error caching trips:", cacheError));
+                navigator.serviceWorker?.controller?.postMessage({
+                    type: "precache",
+                    urls: (data || []).flatMap((trip) => [`/itinerary/${trip.id}`, `/itinerary/${trip.id}/today`]),
+                });
+            }
+
+            // Trips other people invited this user to
+            const { data: shared, error: sharedError } = await supabase
+                .from('itinerary_collaborators')
+                .select('role, itineraries(id, created_at, destination, days, budget_breakdown)')
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: false })
+                .overrideTypes<CollaboratorWithTrip[], { merge: false }>();
+
+            if (sharedError) {
+                console.error("Error fetching shared trips:", sharedError);
+            } else {
+                setSharedItineraries((shared || []).flatMap(({ role, itineraries: trip }) =>
+                    trip ? [{ ...trip, role }] : []
+                ));
             }
             setIsLoading(false);
         };
@@ -51,7 +128,48 @@ export default function Dashboard() {
         fetchItineraries();
     }, []);
 
+    // Create a new trip from a JSON backup exported from TripView (older file versions are upgraded on the way in)
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ""; // Allow picking the same file again after fixing it
+        if (!file) return;
+
+        let json: unknown;
+        try {
+            json = JSON.parse(await file.text());
+        } catch {
+            toast.error("That file isn't valid JSON.");
+            return;
+        }
+
+        const result = parseTripExport(json);
+        if (!result.ok) {
+            toast.error(result.error);
+            return;
+        }
+
+        setIsImporting(true);
+        const { data: { user } } = await supabase.auth.getUser();
+        const { data, error } = await supabase.from('itineraries').insert({
+            user_id: user?.id,
+            ...savedTripToRow(result.trip)
+        }).select().single();
+
+        if (error) {
+            console.error('Error importing:', error);
+            toast.error('Failed to import trip. ' + error.message);
+            setIsImporting(false);
+            return;
+        }
+
+        toast.success(result.upgradedFrom
+            ? `Imported ${result.trip.tripData.destination} (converted from an older file format).`
+            : `Imported ${result.trip.tripData.destination}.`);
+        router.push(`/itinerary/${data.id}`);
+    };
+
     const handleLogout = async () => {
+        if (!(await confirmSignOut())) return;
         await supabase.auth.signOut();
         window.location.href = "/";
     };
@@ -79,10 +197,28 @@ export default function Dashboard() {
                         <div>
                             <h1 className="text-4xl font-black text-emerald-950 tracking-tight font-serif">My Trips</h1>
                             <p className="text-emerald-600 font-medium mt-1 text-lg">Welcome back, {userEmail} 👋</p>
+                            {isOfflineCopy && (
+                                <p className="flex items-center gap-2 text-amber-700 text-sm font-medium mt-2">
+                                    <WifiOff className="w-4 h-4" /> Showing the trips saved on this device. Shared trips appear once you&apos;re back online.
+                                </p>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {canInstall && (
+                                <Button variant="outline" onClick={install} className="gap-2 rounded-full border-emerald-200 bg-white text-emerald-700 hover:bg-emerald-50 font-medium">
+                                    <MonitorDown className="w-4 h-4" />
+                                    Install App
+                                </Button>
+                            )}
+                            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting || isOfflineCopy} className="gap-2 rounded-full border-emerald-200 bg-white text-emerald-700 hover:bg-emerald-50 font-medium">
+                                {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                                Import Trip
+                            </Button>
+                            <Button variant="ghost" onClick={handleLogout} className="text-red-500 hover:text-red-600 hover:bg-red-50 font-medium">
+                                Log Out
+                            </Button>
                         </div>
-                        <Button variant="ghost" onClick={handleLogout} className="text-red-500 hover:text-red-600 hover:bg-red-50 font-medium">
-                            Log Out
-                        </Button>
                     </div>
 
                     {/* Grid */}
@@ -100,42 +236,7 @@ export default function Dashboard() {
                     ) : (
                         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
                             {itineraries.map((trip) => (
-                                <Card key={trip.id} className="group hover:shadow-2xl hover:shadow-emerald-900/10 transition-all duration-300 border-0 overflow-hidden bg-white rounded-[2rem] ring-1 ring-emerald-100">
-                                    <div className="h-48 relative overflow-hidden">
-                                        <div className="absolute inset-0 bg-emerald-900">
-                                            {/* Use the local image as background */}
-                                            <img
-                                                src="/card-pattern.png"
-                                                alt="Trip Pattern"
-                                                className="w-full h-full object-cover opacity-80 group-hover:scale-105 transition-transform duration-700"
-                                            />
-                                        </div>
-                                        <div className="absolute inset-0 bg-gradient-to-t from-emerald-900/90 via-emerald-900/20 to-transparent z-10" />
-
-                                        <div className="absolute bottom-4 left-6 z-20">
-                                            <h3 className="text-2xl font-bold text-white mb-1 drop-shadow-md">{trip.destination}</h3>
-                                            <div className="flex items-center gap-2 text-emerald-100 font-medium text-sm">
-                                                <Calendar className="w-4 h-4" />
-                                                {new Date(trip.created_at).toLocaleDateString()}
-                                            </div>
-                                        </div>
-                                    </div>
-                                    <CardContent className="p-6">
-                                        <div className="flex justify-between items-center mb-6">
-                                            <div className="bg-emerald-50 px-4 py-2 rounded-full text-emerald-700 font-bold text-sm">
-                                                {trip.days} Days
-                                            </div>
-                                            <div className="text-emerald-900 font-bold">
-                                                {trip.budget_breakdown?.currency || "IDR"} {trip.budget_breakdown?.total?.toLocaleString()}
-                                            </div>
-                                        </div>
-                                        <Button className="w-full rounded-xl bg-white border-2 border-emerald-100 text-emerald-700 hover:bg-emerald-50 hover:border-emerald-200 font-bold h-12 transition-all" variant="secondary" asChild>
-                                            <Link href={`/itinerary/${trip.id}`}>
-                                                View Itinerary →
-                                            </Link>
-                                        </Button>
-                                    </CardContent>
-                                </Card>
+                                <TripCard key={trip.id} trip={trip} />
                             ))}
 
                             {/* Always show "Add New" card style button at the end of list if desired, implies user can add more */}
@@ -147,8 +248,70 @@ export default function Dashboard() {
                             </Link>
                         </div>
                     )}
+
+                    {/* Shared With Me */}
+                    {sharedItineraries.length > 0 && (
+                        <section className="space-y-6 pt-8 border-t border-emerald-100">
+                            <div>
+                                <h2 className="text-2xl font-black text-emerald-950 tracking-tight font-serif">Shared with me</h2>
+                                <p className="text-emerald-600/80 font-medium mt-1">Trips other planners invited you to.</p>
+                            </div>
+                            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+                                {sharedItineraries.map((trip) => (
+                                    <TripCard key={trip.id} trip={trip} role={trip.role} />
+                                ))}
+                            </div>
+                        </section>
+                    )}
                 </div>
             </div>
         </main>
     );
 }
+
+function TripCard({ trip, role }: { trip: SavedItinerary, role?: CollaboratorRole }) {
+    return (
+        <Card className="group hover:shadow-2xl hover:shadow-emerald-900/10 transition-all duration-300 border-0 overflow-hidden bg-white rounded-[2rem] ring-1 ring-emerald-100">
+            <div className="h-48 relative overflow-hidden">
+                <div className="absolute inset-0 bg-emerald-900">
+                    {/* Use the local image as background */}
+                    <img
+                        src="/card-pattern.png"
+                        alt="Trip Pattern"
+                        className="w-full h-full object-cover opacity-80 group-hover:scale-105 transition-transform duration-700"
+                    />
+                </div>
+                <div className="absolute inset-0 bg-gradient-to-t from-emerald-900/90 via-emerald-900/20 to-transparent z-10" />
+
+                {role && (
+                    <span className="absolute top-4 right-4 z-20 flex items-center gap-1 text-xs font-bold bg-white/90 text-indigo-700 px-3 py-1 rounded-full">
+                        <Users className="w-3 h-3" /> {ROLE_LABELS[role]}
+                    </span>
+                )}
+
+                <div className="absolute bottom-4 left-6 z-20">
+                    <h3 className="text-2xl font-bold text-white mb-1 drop-shadow-md">{trip.destination}</h3>
+                    <div className="flex items-center gap-2 text-emerald-100 font-medium text-sm">
+                        <Calendar className="w-4 h-4" />
+                        {new Date(trip.created_at).toLocaleDateString()}
+                    </div>
+                </div>
+            </div>
+            <CardContent className="p-6">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="bg-emerald-50 px-4 py-2 rounded-full text-emerald-700 font-bold text-sm">
+                        {trip.days} Days
+                    </div>
+                    <div className="text-emerald-900 font-bold">
+                        {formatMoney(trip.budget_breakdown?.total || 0, trip.budget_breakdown?.currency || DEFAULT_CURRENCY)}
+                    </div>
+                </div>
+                <Button className="w-full rounded-xl bg-white border-2 border-emerald-100 text-emerald-700 hover:bg-emerald-50 hover:border-emerald-200 font-bold h-12 transition-all" variant="secondary" asChild>
+                    <Link href={`/itinerary/${trip.id}`}>
+                        View Itinerary →
+                    </Link>
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,23 @@
+import { renderAppIcon } from "@/lib/appIcon";
+
+// /icons/icon-192.png, /icons/maskable-512.png, ... as listed in the web app manifest
+const ICONS: Record<string, { size: number; maskable: boolean }> = {
+    "icon-192.png": { size: 192, maskable: false },
+    "icon-512.png": { size: 512, maskable: false },
+    "maskable-192.png": { size: 192, maskable: true },
+    "maskable-512.png": { size: 512, maskable: true },
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+    return Object.keys(ICONS).map((name) => ({ name }));
+}
+
+export async function GET(_req: Request, { params }: { params: Promise<{ name: string }> }) {
+    const { name } = await params;
+    const icon = ICONS[name];
+    if (!icon) return new Response("Not found", { status: 404 });
+
+    return renderAppIcon(icon.size, { maskable: icon.maskable });
+}
@@ -1,11 +1,28 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useParams } from "next/navigation"; // Correct hook for App Router params
 import { supabase } from "@/lib/supabaseClient";
-import { TripView, TripData } from "@/components/TripView";
+import { SavedTrip, rowToSavedTrip, savedTripToRow } from "@/lib/itineraries";
+import { TripView, TripData, Weather, Hotel } from "@/components/TripView";
 import { DayPlan } from "@/components/ItineraryDisplay";
 import { Budget } from "@/components/BudgetBreakdown";
+import { useActivityEditor } from "@/hooks/useActivityEditor";
+import { useTripRealtime } from "@/hooks/useTripRealtime";
+import { useActivityFeedback } from "@/hooks/useActivityFeedback";
+import { useBudgetActions } from "@/hooks/useBudgetActions";
+import { useTripExpenses } from "@/hooks/useTripExpenses";
+import { VersionHistory } from "@/components/VersionHistory";
+import { ExpensesPanel } from "@/components/ExpensesPanel";
+import { ShareDialog } from "@/components/ShareDialog";
+import { CollaboratorsDialog } from "@/components/CollaboratorsDialog";
+import { ItineraryRole, canEdit, canManage, getItineraryRole } from "@/lib/permissions";
+import { ItineraryVersion, mergeItineraries, rowsToVersions } from "@/lib/versions";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { findDayIndex } from "@/lib/today";
+import { actualSpend } from "@/lib/expenses";
+import { SavedBy } from "@/lib/realtime";
+import { TRIPS_SYNCED_EVENT, cacheTrips, fetchTripRow, isNetworkError, queueEdit, updateCachedTrip } from "@/lib/offline";
 
 import { toast } from "sonner";
 
@@ -16,45 +33,304 @@ export default function ItineraryPage() {
     const [itinerary, setItinerary] = useState<DayPlan[] | null>(null);
     const [budget, setBudget] = useState<Budget | null>(null);
     const [tripData, setTripData] = useState<TripData | null>(null);
+    const [weather, setWeather] = useState<Weather | null>(null);
+    const [hotels, setHotels] = useState<Hotel[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+    const [versions, setVersions] = useState<ItineraryVersion[]>([]);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [user, setUser] = useState<{ id: string; email: string } | null>(null);
+    const [isShareOpen, setIsShareOpen] = useState(false);
+    const [isCollaboratorsOpen, setIsCollaboratorsOpen] = useState(false);
+    const [role, setRole] = useState<ItineraryRole | null>(null);
+    // The trip as last loaded or saved: what unsaved edits are replayed on top of when merging a co-planner's save
+    const savedTripRef = useRef<Pick<SavedTrip, "itinerary" | "tripData"> | null>(null);
+
+    // Same regenerate / edit / remove flow as the preview page; changes stay local until saved
+    const { handleActivityUpdate, handleAddActivity, handleMoveActivity, editingActivityId, dialogs } = useActivityEditor({
+        itinerary,
+        budget,
+        tripData,
+        onChange: (updatedItinerary, updatedBudget) => {
+            setItinerary(updatedItinerary);
+            setBudget(updatedBudget);
+            setHasUnsavedChanges(true);
+        },
+    });
+
+    // Every save is snapshotted by a database trigger; reload the list after writing
+    const fetchVersions = useCallback(async (currency: string) => {
+        const { data, error } = await supabase
+            .from('itinerary_versions')
+            .select('*')
+            .eq('itinerary_id', id)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            // The history is optional; the trip itself still works without the table
+            console.error("Error fetching versions:", error);
+            return;
+        }
+        setVersions(rowsToVersions(data || [], currency));
+    }, [id]);
+
+    // Load (or reload, after a co-planner saved) the trip as it is in the database.
+    // Without a connection this falls back to the copy kept on this device.
+    const fetchTrip = useCallback(async () => {
+        const loaded = await fetchTripRow(id);
+        if (!loaded) {
+            toast.error("Could not load trip.");
+            return null;
+        }
+
+        const { row, offline } = loaded;
+        if (offline) toast.info("You're offline. Showing the copy saved on this device.");
+
+        const trip = rowToSavedTrip(row);
+        savedTripRef.current = trip;
+        setItinerary(trip.itinerary);
+        setBudget(trip.budget);
+        setTripData(trip.tripData);
+        setWeather(trip.weather);
+        setHotels(trip.hotels);
+        setHasUnsavedChanges(false);
+        if (!offline) {
+            fetchVersions(trip.tripData.currency || DEFAULT_CURRENCY);
+            cacheTrips([row]).catch((cacheError) => console.error("Error caching trip:", cacheError));
+        }
+        return loaded;
+    }, [id, fetchVersions]);
 
     useEffect(() => {
-        const fetchTrip = async () => {
+        const loadPage = async () => {
             if (!id) return;
 
-            const { data, error } = await supabase
-                .from('itineraries')
-                .select('*')
-                .eq('id', id)
-                .single();
+            const loaded = await fetchTrip();
 
-            if (error) {
-                console.error("Error fetching trip:", error);
-                toast.error("Could not load trip.");
+            if (loaded?.offline) {
+                // The role check needs the database; owners can keep editing their copy and the edits are queued
+                const { data: { session } } = await supabase.auth.getSession();
+                setUser(session ? { id: session.user.id, email: session.user.email || "" } : null);
+                setRole(session && loaded.row.user_id === session.user.id ? "owner" : null);
                 setIsLoading(false);
                 return;
             }
 
-            if (data) {
-                setItinerary(data.itinerary_data);
-                setBudget(data.budget_breakdown);
-                setTripData({
-                    destination: data.destination,
-                    days: data.days,
-                    budget: data.budget_breakdown?.total || 0,
-                    currency: data.budget_breakdown?.currency || "IDR",
-                    travelers: 1, // Defaulting as this might not be saved
-                });
-
-                // Corrections if we didn't save these fields:
-                // We should probably update the `handleSave` in PlanPage to save everything in a cleaner JSON struct or dedicated cols.
-                // For now, let's just show what we have.
-            }
+            const { data: { user } } = await supabase.auth.getUser();
+            setUser(user ? { id: user.id, email: user.email || "" } : null);
+            // Owner or invited co-planner; decides which controls are shown (the database enforces the same)
+            setRole(await getItineraryRole(supabase, id));
             setIsLoading(false);
         };
 
-        fetchTrip();
-    }, [id]);
+        loadPage();
+    }, [id, fetchTrip]);
+
+    // Live presence and save notifications from everyone else on the trip
+    const { others, notifySaved } = useTripRealtime({
+        tripId: id,
+        user,
+        editingActivityId,
+        onRemoteSave: (by) => {
+            if (!hasUnsavedChanges) {
+                fetchTrip();
+                toast.info(`Updated with changes from ${by.email}.`);
+                return;
+            }
+            // Don't throw away local edits; let the user decide
+            promptRemoteSave(by);
+        },
+    });
+
+    const promptRemoteSave = (by: SavedBy) => {
+        toast.warning(`${by.email} saved changes to this trip.`, {
+            id: "remote-save",
+            description: "Merge them with your unsaved changes, or load their version and discard yours.",
+            action: { label: "Merge", onClick: () => mergeRemoteSaveRef.current(by) },
+            cancel: { label: "Load theirs", onClick: () => fetchTrip() },
+            duration: Infinity,
+        });
+    };
+
+    // Replay the unsaved edits on top of what a co-planner just saved, activity by activity
+    const mergeRemoteSave = async (by: SavedBy) => {
+        const base = savedTripRef.current;
+        const loaded = await fetchTripRow(id);
+        if (!loaded || loaded.offline || !base || !itinerary || !budget || !tripData) {
+            toast.error("Couldn't load the latest version to merge.");
+            promptRemoteSave(by);
+            return;
+        }
+
+        const remote = rowToSavedTrip(loaded.row);
+        // Once either side shortened the trip the days no longer line up
+        if (remote.tripData.days !== base.tripData.days || tripData.days !== base.tripData.days) {
+            toast.error("The trip length changed, so the changes can't be merged.");
+            promptRemoteSave(by);
+            return;
+        }
+
+        const merged = mergeItineraries({ base: base.itinerary, local: itinerary, remote: remote.itinerary }, remote.budget, tripData.travelers);
+        const settingsChanged = JSON.stringify(tripData) !== JSON.stringify(base.tripData);
+        savedTripRef.current = remote;
+        setItinerary(merged.itinerary);
+        setBudget(merged.budget);
+        setTripData(settingsChanged ? tripData : remote.tripData);
+        setWeather(remote.weather);
+        setHotels(remote.hotels);
+        setHasUnsavedChanges(true);
+        fetchVersions(remote.tripData.currency || DEFAULT_CURRENCY);
+        cacheTrips([loaded.row]).catch((cacheError) => console.error("Error caching trip:", cacheError));
+        toast.success(merged.conflicts > 0
+            ? `Merged ${by.email}'s changes. Where you both changed an activity (${merged.conflicts}), yours was kept. Save to keep the result.`
+            : `Merged ${by.email}'s changes with yours. Save to keep the result.`);
+    };
+
+    // The toast action runs later; always merge with the edits as they are by then
+    const mergeRemoteSaveRef = useRef(mergeRemoteSave);
+    useEffect(() => {
+        mergeRemoteSaveRef.current = mergeRemoteSave;
+    });
+
+    // Votes and comments from everyone on the trip, viewers included
+    const { feedback, openDiscussion, dialog: discussionDialog } = useActivityFeedback({
+        itineraryId: id,
+        userId: user?.id ?? null,
+        canModerate: canManage(role),
+    });
+
+    // Budget Alert: the best-rated days are the ones kept when shortening; like other edits, kept until saved
+    const budgetActions = useBudgetActions({
+        tripData,
+        itinerary,
+        budget,
+        hotels,
+        feedback,
+        onChange: (next) => {
+            setTripData(next.tripData);
+            setItinerary(next.itinerary);
+            setBudget(next.budget);
+            setHasUnsavedChanges(true);
+        },
+    });
+
+    // What the group actually spent; logged straight to the database, unlike itinerary edits
+    const { expenses, addExpense, deleteExpense } = useTripExpenses({ itineraryId: id, userId: user?.id ?? null });
+
+    const lockedActivities = Object.fromEntries(
+        others.filter((person) => person.editingActivityId).map((person) => [person.editingActivityId as string, person])
+    );
+
+    // Warn before closing the tab with edits that were never written back
+    useEffect(() => {
+        if (!hasUnsavedChanges) return;
+
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+        };
+
+        window.addEventListener("beforeunload", handleBeforeUnload);
+        return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+    }, [hasUnsavedChanges]);
+
+    // Edits saved offline are written back by OfflineSupport once the connection returns; reload to pick up the result
+    useEffect(() => {
+        const handleSynced = (e: Event) => {
+            if (!(e as CustomEvent<string[]>).detail.includes(id)) return;
+            notifySaved();
+            if (!hasUnsavedChanges) fetchTrip();
+        };
+
+        window.addEventListener(TRIPS_SYNCED_EVENT, handleSynced);
+        return () => window.removeEventListener(TRIPS_SYNCED_EVENT, handleSynced);
+    }, [id, hasUnsavedChanges, fetchTrip, notifySaved]);
+
+    const handleSaveChanges = async () => {
+        if (!itinerary || !budget || !tripData) return;
+
+        setIsSaving(true);
+
+        // The trip parameters too: the budget actions change the limit and the number of days
+        const row = savedTripToRow({ tripData, itinerary, budget, weather, hotels });
+        const changes = {
+            itinerary_data: itinerary,
+            budget_breakdown: budget,
+            days: row.days,
+            trip_data: row.trip_data,
+        };
+        const { data: saved, error } = await supabase
+            .from('itineraries')
+            .update(changes)
+            .eq('id', id)
+            .select('updated_at');
+
+        if (error && isNetworkError(error)) {
+            try {
+                await queueEdit(id, changes);
+                setHasUnsavedChanges(false);
+                toast.info("You're offline. Your changes are saved on this device and will sync when you reconnect.");
+            } catch (queueError) {
+                console.error('Error queueing offline edit:', queueError);
+                toast.error('Failed to save changes while offline.');
+            }
+        } else if (error) {
+            console.error('Error saving:', error);
+            toast.error('Failed to save changes. ' + error.message);
+        } else {
+            setHasUnsavedChanges(false);
+            savedTripRef.current = { itinerary, tripData };
+            toast.success('Changes saved!');
+            // The new updated_at is what edits queued offline from here on are checked against
+            updateCachedTrip(id, { ...changes, updated_at: saved?.[0]?.updated_at })
+                .catch((cacheError) => console.error("Error caching trip:", cacheError));
+            fetchVersions(budget.currency);
+            notifySaved();
+        }
+        setIsSaving(false);
+    };
+
+    // Write an older version back as the current state; the trigger records it as a new version
+    const handleRestore = async (version: ItineraryVersion) => {
+        const restoredBudget = version.budget || budget;
+        if (!restoredBudget) return;
+
+        setIsRestoring(true);
+        // Older versions didn't record the trip settings; those keep the current ones
+        const restoredTripData = tripData && version.tripData ? { ...tripData, ...version.tripData } : tripData;
+        const changes = {
+            itinerary_data: version.itinerary,
+            budget_breakdown: restoredBudget,
+            hotels: version.hotels,
+            ...(restoredTripData && {
+                days: restoredTripData.days,
+                trip_data: savedTripToRow({ tripData: restoredTripData, itinerary: version.itinerary, budget: restoredBudget, weather, hotels: version.hotels }).trip_data,
+            }),
+        };
+        const { data: saved, error } = await supabase
+            .from('itineraries')
+            .update(changes)
+            .eq('id', id)
+            .select('updated_at');
+
+        if (error) {
+            console.error('Error restoring:', error);
+            toast.error('Failed to restore version. ' + error.message);
+        } else {
+            setItinerary(version.itinerary);
+            setBudget(restoredBudget);
+            setHotels(version.hotels);
+            setTripData(restoredTripData);
+            setHasUnsavedChanges(false);
+            if (restoredTripData) savedTripRef.current = { itinerary: version.itinerary, tripData: restoredTripData };
+            toast.success(`Restored version ${version.number}.`);
+            updateCachedTrip(id, { ...changes, updated_at: saved?.[0]?.updated_at })
+                .catch((cacheError) => console.error("Error caching trip:", cacheError));
+            fetchVersions(restoredBudget.currency || DEFAULT_CURRENCY);
+            notifySaved();
+        }
+        setIsRestoring(false);
+    };
 
     if (isLoading) {
         return (
@@ -68,12 +344,75 @@ export default function ItineraryPage() {
         return <div className="text-center p-10">Trip not found.</div>;
     }
 
+    const isEditable = canEdit(role);
+
     return (
-        <TripView
-            tripData={tripData}
-            itinerary={itinerary}
-            budgetBreakdown={budget}
-            isSaved={true}
-        />
+        <>
+            <TripView
+                tripData={tripData}
+                itinerary={itinerary}
+                budgetBreakdown={budget}
+                isSaved={true}
+                accessRole={role}
+                onSave={isEditable ? handleSaveChanges : undefined}
+                isSaving={isSaving}
+                hasUnsavedChanges={hasUnsavedChanges}
+                onShare={canManage(role) ? () => setIsShareOpen(true) : undefined}
+                onManageCollaborators={role ? () => setIsCollaboratorsOpen(true) : undefined}
+                onActivityUpdate={isEditable ? handleActivityUpdate : undefined}
+                onAddActivity={isEditable ? handleAddActivity : undefined}
+                onMoveActivity={isEditable ? handleMoveActivity : undefined}
+                presence={others}
+                lockedActivities={lockedActivities}
+                feedback={feedback}
+                onOpenDiscussion={role ? openDiscussion : undefined}
+                today={{ href: `/itinerary/${id}/today`, isActive: findDayIndex(itinerary, tripData, new Date()) !== -1 }}
+                weather={weather || undefined}
+                hotels={hotels}
+                budgetActions={isEditable ? budgetActions : undefined}
+                actualSpend={expenses.length > 0 ? actualSpend(expenses, budget.currency) : undefined}
+                sidebar={
+                    <>
+                        {role && (
+                            <ExpensesPanel
+                                expenses={expenses}
+                                tripData={tripData}
+                                itinerary={itinerary}
+                                budget={budget}
+                                onAddExpense={isEditable ? addExpense : undefined}
+                                onDeleteExpense={isEditable ? deleteExpense : undefined}
+                                onRenameTravelers={isEditable ? (travelerNames) => {
+                                    // Names are part of the trip, so they're saved with the other edits
+                                    setTripData({ ...tripData, travelerNames });
+                                    setHasUnsavedChanges(true);
+                                } : undefined}
+                            />
+                        )}
+                        <VersionHistory
+                            versions={versions}
+                            currentUserId={user?.id ?? null}
+                            onRestore={isEditable ? handleRestore : undefined}
+                            isRestoring={isRestoring}
+                            hasUnsavedChanges={hasUnsavedChanges}
+                        />
+                    </>
+                }
+            />
+
+            {dialogs}
+            {discussionDialog}
+
+            <ShareDialog isOpen={isShareOpen} onClose={() => setIsShareOpen(false)} itineraryId={id} />
+
+            {role && (
+                <CollaboratorsDialog
+                    isOpen={isCollaboratorsOpen}
+                    onClose={() => setIsCollaboratorsOpen(false)}
+                    itineraryId={id}
+                    role={role}
+                    currentUserId={user?.id ?? null}
+                />
+            )}
+        </>
     );
 }
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { format } from "date-fns";
+import { CalendarDays } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { TodayView } from "@/components/TodayView";
+import { SavedTrip, rowToSavedTrip } from "@/lib/itineraries";
+import { fetchTripRow } from "@/lib/offline";
+import { resolveDayDate } from "@/lib/calendar";
+import { findDayIndex } from "@/lib/today";
+import { useActivityStatuses } from "@/hooks/useActivityStatuses";
+import { useNow } from "@/hooks/useNow";
+
+// "Today" mode for a trip in progress: only the current day, meant for a phone on the road
+export default function TodayPage() {
+    const params = useParams();
+    const id = params.id as string;
+
+    const [trip, setTrip] = useState<Pick<SavedTrip, "tripData" | "itinerary"> | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [pickedDayIndex, setPickedDayIndex] = useState<number | null>(null);
+    const [isPicking, setIsPicking] = useState(false);
+    const { statuses, setStatus } = useActivityStatuses(id);
+    const now = useNow();
+
+    useEffect(() => {
+        if (!id) return;
+
+        fetchTripRow(id).then((loaded) => {
+            if (loaded) setTrip(rowToSavedTrip(loaded.row));
+            else toast.error("Could not load trip.");
+            setIsLoading(false);
+        });
+    }, [id]);
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-emerald-50/50">
+                <p className="animate-pulse text-emerald-600 font-medium">Loading today&apos;s plan...</p>
+            </div>
+        );
+    }
+
+    if (!trip) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-emerald-50/50">
+                <p className="text-emerald-900 font-medium">Trip not found.</p>
+                <Button asChild variant="outline"><Link href="/dashboard">Back to My Trips</Link></Button>
+            </div>
+        );
+    }
+
+    const { tripData, itinerary } = trip;
+    const todayIndex = findDayIndex(itinerary, tripData, now);
+    const dayIndex = pickedDayIndex ?? todayIndex;
+
+    // Not on the road today (or the trip has no dates): let the traveler say which day it is
+    if (dayIndex === -1 || isPicking) {
+        return (
+            <main className="min-h-screen bg-emerald-50/50 p-6">
+                <div className="max-w-md mx-auto space-y-6 pt-8">
+                    <div>
+                        <h1 className="text-3xl font-black text-emerald-950 tracking-tight font-serif">{tripData.destination}</h1>
+                        <p className="text-emerald-600/80 font-medium mt-1">
+                            {todayIndex === -1 ? "None of this trip's days is today. Which day would you like to follow?" : "Which day would you like to follow?"}
+                        </p>
+                    </div>
+                    <div className="space-y-2">
+                        {itinerary.map((day, index) => {
+                            const date = resolveDayDate(day, index, tripData);
+                            return (
+                                <Button
+                                    key={day.day}
+                                    variant="outline"
+                                    onClick={() => {
+                                        setPickedDayIndex(index === todayIndex ? null : index);
+                                        setIsPicking(false);
+                                    }}
+                                    className={`w-full justify-start gap-3 h-14 rounded-xl bg-white font-bold ${index === dayIndex ? "border-orange-300 text-orange-700" : "border-emerald-100 text-emerald-800"}`}
+                                >
+                                    <CalendarDays className="w-4 h-4" />
+                                    Day {day.day}
+                                    <span className="font-medium text-muted-foreground">
+                                        {date ? format(date, "EEE, MMM d") : day.date}
+                                        {index === todayIndex && " · Today"}
+                                    </span>
+                                </Button>
+                            );
+                        })}
+                    </div>
+                    <Button asChild variant="ghost" className="w-full text-emerald-700">
+                        <Link href={`/itinerary/${id}`}>Back to the full plan</Link>
+                    </Button>
+                </div>
+            </main>
+        );
+    }
+
+    const day = itinerary[dayIndex];
+    return (
+        <TodayView
+            tripData={tripData}
+            day={day}
+            date={resolveDayDate(day, dayIndex, tripData)}
+            now={now}
+            isToday={dayIndex === todayIndex}
+            statuses={statuses}
+            onStatusChange={setStatus}
+            onPickAnotherDay={() => setIsPicking(true)}
+            planHref={`/itinerary/${id}`}
+        />
+    );
+}
@@ -1,91 +1,199 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { TripView, TripData } from "@/components/TripView";
+import { TripView, TripData, Weather, Hotel } from "@/components/TripView";
 import { DayPlan } from "@/components/ItineraryDisplay";
 import { Budget } from "@/components/BudgetBreakdown";
 import { supabase } from "@/lib/supabaseClient";
+import { savedTripToRow, normalizeItinerary } from "@/lib/itineraries";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
 import { toast } from "sonner";
-import { RegenerateModal } from "@/components/RegenerateModal";
-import { Activity } from "@/components/ItineraryDisplay";
-import { ManualEditModal } from "@/components/ManualEditModal";
-import {
-    AlertDialog,
-    AlertDialogAction,
-    AlertDialogCancel,
-    AlertDialogContent,
-    AlertDialogDescription,
-    AlertDialogFooter,
-    AlertDialogHeader,
-    AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import { LoadingScreen } from "@/components/LoadingScreen";
+import { useActivityEditor } from "@/hooks/useActivityEditor";
+import { useUndoHistory } from "@/hooks/useUndoHistory";
+import { useBudgetActions } from "@/hooks/useBudgetActions";
+import { streamGeneration, PartialTrip, toRenderableDays, describeProgress } from "@/lib/generationStream";
+
+// Everything an undo / redo puts back
+interface TripSnapshot {
+    itinerary: DayPlan[];
+    budget: Budget | null;
+    weather: Weather | null;
+    hotels: Hotel[];
+    tripData?: TripData; // Budget actions change the days and the limit; missing in histories saved before them
+}
 
-
-const parseCost = (costStr: string | number | undefined | null): number => {
-    if (costStr === null || costStr === undefined) return 0;
-    const str = String(costStr);
-    if (str.toLowerCase().includes("free")) return 0;
-
-    // Handle ranges with various separators (hyphen, en-dash, em-dash, "to")
-    // This prevents "50.000 - 100.000" from becoming "50000100000"
-    const rangeSeparators = /[-–—]|\s+to\s+/i;
-    if (rangeSeparators.test(str)) {
-        const parts = str.split(rangeSeparators);
-        const values = parts.map(p => parseInt(p.replace(/\D/g, "")) || 0);
-        return Math.max(...values);
-    }
-
-    // Simple parsing: remove non-digits.
-    const digits = str.replace(/\D/g, "");
-    return parseInt(digits) || 0;
+// Merge changes into the draft trip kept in localStorage
+const updateStoredTrip = (changes: Record<string, unknown>) => {
+    const stored = JSON.parse(localStorage.getItem("currentTrip") || "{}");
+    localStorage.setItem("currentTrip", JSON.stringify({ ...stored, ...changes }));
 };
 
 export default function PreviewPage() {
     const [itinerary, setItinerary] = useState<DayPlan[] | null>(null);
     const [budget, setBudget] = useState<Budget | null>(null);
-    const [weather, setWeather] = useState<{ summary: string; temperature: string } | null>(null);
-    const [hotels, setHotels] = useState<Array<{ name: string; address: string; description: string; price_per_night: string; currency: string; booking_url_query: string; category: string; }>>([]);
+    const [weather, setWeather] = useState<Weather | null>(null);
+    const [hotels, setHotels] = useState<Hotel[]>([]);
     const [tripData, setTripData] = useState<TripData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [isSignedIn, setIsSignedIn] = useState(false);
 
-    // Regeneration State
-    const [isRegeneratingTrip, setIsRegeneratingTrip] = useState(false); // For full trip regeneration
-    const [isFetchingAlternatives, setIsFetchingAlternatives] = useState(false); // For single activity regeneration
-    const [regenerateModalOpen, setRegenerateModalOpen] = useState(false);
-    const [alternatives, setAlternatives] = useState<Activity[]>([]);
-    const [selectedContext, setSelectedContext] = useState<{ dayIndex: number, period: string } | null>(null);
+    // Generation State (first generation and full trip regeneration both stream in)
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [partialTrip, setPartialTrip] = useState<PartialTrip | null>(null);
+    const generationAbortRef = useRef<AbortController | null>(null);
 
     // Full Trip Regeneration Limits
     const [regenerationCount, setRegenerationCount] = useState(0);
     const MAX_REGENERATIONS = 3;
 
-    // Manual Edit State
-    const [manualEditModalOpen, setManualEditModalOpen] = useState(false);
-    const [activityToEdit, setActivityToEdit] = useState<Activity | null>(null);
+    const router = useRouter();
 
-    // Delete Confirmation State
-    const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-    const [itemToDelete, setItemToDelete] = useState<{ dayIndex: number, period: string } | null>(null);
+    // Undo / Redo
+    const snapshot: TripSnapshot | null = itinerary && tripData ? { itinerary, budget, weather, hotels, tripData } : null;
+    const restoreSnapshot = useCallback((state: TripSnapshot) => {
+        const { tripData: restoredTripData, ...restored } = state;
+        setItinerary(restored.itinerary);
+        setBudget(restored.budget);
+        setWeather(restored.weather);
+        setHotels(restored.hotels);
+        if (restoredTripData) setTripData(restoredTripData);
+        updateStoredTrip({ ...restored, ...(restoredTripData && { formData: restoredTripData }) });
+    }, []);
+    const { stacks: historyStacks, reset: resetHistory, record: recordHistory, undo, redo, undoLabel, redoLabel } =
+        useUndoHistory<TripSnapshot>({ current: snapshot, restore: restoreSnapshot });
+
+    // Activity regenerate / edit / remove / add / move
+    const { handleActivityUpdate, handleAddActivity, handleMoveActivity, dialogs } = useActivityEditor({
+        itinerary,
+        budget,
+        tripData,
+        onChange: (updatedItinerary, updatedBudget, label) => {
+            if (snapshot) recordHistory(label, snapshot);
+            setItinerary(updatedItinerary);
+            setBudget(updatedBudget);
+            // Keep the stored draft in step so edits survive a reload
+            updateStoredTrip({ itinerary: updatedItinerary, budget: updatedBudget });
+        },
+    });
+
+    // Budget Alert: raise the limit, cheaper picks, or one day fewer
+    const budgetActions = useBudgetActions({
+        tripData,
+        itinerary,
+        budget,
+        hotels,
+        onChange: (next, label) => {
+            if (snapshot) recordHistory(label, snapshot);
+            setTripData(next.tripData);
+            setItinerary(next.itinerary);
+            setBudget(next.budget);
+            updateStoredTrip({ formData: next.tripData, itinerary: next.itinerary, budget: next.budget });
+        },
+    });
+
+    // Stream a fresh itinerary for the given parameters, rendering days as they arrive
+    // Resolves true once the new trip is in place
+    const runGeneration = useCallback(async (formData: TripData, newCount: number): Promise<boolean> => {
+        generationAbortRef.current?.abort();
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
+
+        setIsGenerating(true);
+        setPartialTrip(null);
 
-    const router = useRouter();
+        try {
+            const { trip: result, warnings, budgetCheck } = await streamGeneration(formData, {
+                onPartial: setPartialTrip,
+                signal: controller.signal,
+            });
+
+            // Update State
+            setItinerary(result.itinerary);
+            setBudget(result.budget);
+            setWeather(result.weather);
+            setHotels(result.hotels);
+            setRegenerationCount(newCount);
+
+            // Update Local Storage
+            localStorage.setItem("currentTrip", JSON.stringify({
+                itinerary: result.itinerary,
+                budget: result.budget,
+                weather: result.weather,
+                hotels: result.hotels,
+                formData: formData,
+                regenerationCount: newCount
+            }));
+
+            toast.success(newCount > 0 ? "Itinerary regenerated successfully!" : "Itinerary generated!");
+            // What the validation pass had to fix, so surprises in the plan have an explanation
+            if (warnings.length > 0) {
+                toast.warning("We fixed a few things in the generated plan", {
+                    description: (
+                        <ul className="list-disc pl-4 space-y-1">
+                            {warnings.map((warning) => <li key={warning}>{warning}</li>)}
+                        </ul>
+                    ),
+                    duration: 15000,
+                });
+            }
+            // What strict budget mode swapped, and any overspend left
+            if (budgetCheck && budgetCheck.changes.length > 0) {
+                toast.info("We swapped a few things to fit your budget", {
+                    description: (
+                        <ul className="list-disc pl-4 space-y-1">
+                            {budgetCheck.changes.map((change) => <li key={change}>{change}</li>)}
+                        </ul>
+                    ),
+                    duration: 15000,
+                });
+            }
+            if (budgetCheck && budgetCheck.estimated > budgetCheck.limit) {
+                const over = formatMoney(budgetCheck.estimated - budgetCheck.limit, result.budget.currency);
+                toast.warning(`This plan is about ${over} over your budget`, {
+                    description: budgetCheck.mode === "strict"
+                        ? "We couldn't find enough cheaper options. Try fewer days or a higher budget."
+                        : "Advisory mode keeps the plan as generated. Choose strict mode to have pricier picks swapped automatically.",
+                    duration: 15000,
+                });
+            }
+            return true;
+        } catch (error) {
+            if (controller.signal.aborted) return false;
+            console.error("Generation failed:", error);
+            toast.error(error instanceof Error ? error.message : "Something went wrong! Please try again.");
+            // Nothing to fall back to on a first generation, so send the user back to the form
+            if (newCount === 0) router.push("/plan");
+            return false;
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsGenerating(false);
+                setPartialTrip(null);
+            }
+        }
+    }, [router]);
 
     useEffect(() => {
-        // eslint-disable-next-line react-hooks/exhaustive-deps
         // Note: We ignore set-state-in-effect as this is a client-side hydration of local data
         const storedData = localStorage.getItem("currentTrip");
         if (storedData) {
             try {
                 const parsed = JSON.parse(storedData);
-                setItinerary(parsed.itinerary);
-                setBudget(parsed.budget);
-                setWeather(parsed.weather);
-                setHotels(parsed.hotels || []); // Handle array
                 setTripData(parsed.formData);
-                setRegenerationCount(parsed.regenerationCount || 0); // Load count
+
+                if (parsed.itinerary) {
+                    setItinerary(normalizeItinerary(parsed.itinerary, parsed.budget?.currency));
+                    setBudget(parsed.budget);
+                    setWeather(parsed.weather);
+                    setHotels(parsed.hotels || []); // Handle array
+                    setRegenerationCount(parsed.regenerationCount || 0); // Load count
+                    if (parsed.history) resetHistory(parsed.history);
+                } else {
+                    // Fresh from the plan form (or a reload mid-generation): start streaming
+                    runGeneration(parsed.formData, 0);
+                }
             } catch (e) {
                 console.error("Failed to parse trip data", e);
                 toast.error("Invalid trip data.");
@@ -103,50 +211,20 @@ export default function PreviewPage() {
         };
         checkAuth();
 
-    }, [router]);
+        return () => generationAbortRef.current?.abort();
+    }, [router, runGeneration, resetHistory]);
 
-    // ... (rest of methods)
+    // Keep the history with the draft so it survives reloads
+    useEffect(() => {
+        if (isLoading) return;
+        updateStoredTrip({ history: historyStacks });
+    }, [isLoading, historyStacks]);
 
     const handleFullRegeneration = async () => {
-        if (!tripData || regenerationCount >= MAX_REGENERATIONS) return;
-
-        setIsRegeneratingTrip(true);
-        try {
-            const response = await fetch("/api/generate", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(tripData), // Use existing trip parameters
-            });
-
-            if (!response.ok) throw new Error("Failed to regenerate itinerary");
-
-            const result = await response.json();
-
-            // Update State
-            setItinerary(result.itinerary);
-            setBudget(result.budget);
-            setWeather(result.weather);
-            setHotels(result.hotels);
-
-            const newCount = regenerationCount + 1;
-            setRegenerationCount(newCount);
-
-            // Update Local Storage
-            localStorage.setItem("currentTrip", JSON.stringify({
-                itinerary: result.itinerary,
-                budget: result.budget,
-                weather: result.weather,
-                hotels: result.hotels,
-                formData: tripData,
-                regenerationCount: newCount
-            }));
-
-            toast.success("Itinerary regenerated successfully!");
-        } catch (error) {
-            console.error("Regeneration failed:", error);
-            toast.error("Failed to regenerate trip. Please try again.");
-        } finally {
-            setIsRegeneratingTrip(false);
+        if (!tripData || !snapshot || regenerationCount >= MAX_REGENERATIONS) return;
+        const before = snapshot;
+        if (await runGeneration(tripData, regenerationCount + 1)) { // Use existing trip parameters
+            recordHistory("Regenerate trip", before);
         }
     };
 
@@ -168,10 +246,7 @@ export default function PreviewPage() {
         // 2. Save
         const { data, error } = await supabase.from('itineraries').insert({
             user_id: user.id,
-            destination: tripData.destination,
-            days: tripData.days,
-            itinerary_data: itinerary,
-            budget_breakdown: budget
+            ...savedTripToRow({ tripData, itinerary, budget, weather, hotels })
         }).select();
 
         if (error) {
@@ -187,199 +262,31 @@ export default function PreviewPage() {
         }
     };
 
-    const handleConfirmDelete = () => {
-        if (!itemToDelete || !itinerary || !tripData) return;
-
-        const { dayIndex, period } = itemToDelete;
-        const currentDay = itinerary[dayIndex];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const currentActivity = (currentDay.activities as any)[period];
-
-        const updatedItinerary = [...itinerary];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (updatedItinerary[dayIndex].activities as any)[period] = null;
-        setItinerary(updatedItinerary);
-
-        // Update Budget
-        if (budget) {
-            const costToRemove = parseCost(currentActivity.cost);
-            setBudget({
-                ...budget,
-                activities: Math.max(0, budget.activities - costToRemove),
-                total: Math.max(0, budget.total - costToRemove)
-            });
-        }
-
-        toast.success("Activity removed.");
-        setDeleteDialogOpen(false);
-        setItemToDelete(null);
-    };
-
-    const handleActivityUpdate = async (dayIndex: number, period: string, action: 'regenerate' | 'edit' | 'remove') => {
-        if (!itinerary || !tripData) return;
-
-        const currentDay = itinerary[dayIndex];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const currentActivity = (currentDay.activities as any)[period];
-
-        if (action === 'remove') {
-            setItemToDelete({ dayIndex, period });
-            setDeleteDialogOpen(true);
-            return;
-        }
-
-        if (action === 'regenerate') {
-            setIsFetchingAlternatives(true);
-            setRegenerateModalOpen(true);
-            setSelectedContext({ dayIndex, period });
-            setAlternatives([]); // clear previous
-
-            try {
-                const response = await fetch("/api/activity/regenerate", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                        destination: tripData.destination,
-                        currentActivity: currentActivity,
-                        preferences: tripData.interests, // Passing raw string interests
-                        timeSlot: period
-                    })
-                });
-
-                if (!response.ok) throw new Error("Failed to fetch suggestions");
-
-                const data = await response.json();
-                setAlternatives(data.alternatives || []);
-            } catch (error) {
-                console.error(error);
-                toast.error("Failed to regenerate activity.");
-                setRegenerateModalOpen(false);
-            } finally {
-                setIsFetchingAlternatives(false);
-            }
-        }
-
-        if (action === 'edit') {
-            setActivityToEdit(currentActivity);
-            setSelectedContext({ dayIndex, period });
-            setManualEditModalOpen(true);
-        }
-    };
-
-    const parseCost = (costStr: string | number | undefined | null): number => {
-        if (costStr === null || costStr === undefined) return 0;
-        const str = String(costStr);
-        if (str.toLowerCase().includes("free")) return 0;
-        // Simple parsing: remove non-digits.
-        const digits = str.replace(/\D/g, "");
-        return parseInt(digits) || 0;
-    };
-
-    const handleManualEditSave = (updatedActivity: Activity) => {
-        try {
-            if (!selectedContext || !itinerary) return;
-
-            const { dayIndex, period } = selectedContext;
-
-            // Validate context exists
-            if (!itinerary[dayIndex]) {
-                console.error("Day index out of bounds");
-                return;
-            }
-
-            const currentDay = itinerary[dayIndex];
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const oldActivity = (currentDay.activities as any)[period];
-
-            if (!oldActivity) {
-                console.error("Old activity not found");
-                return;
-            }
-
-            const updatedItinerary = [...itinerary];
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            if ((updatedItinerary[dayIndex].activities as any)[period]) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                (updatedItinerary[dayIndex].activities as any)[period] = updatedActivity;
-            } else {
-                console.error("Activity slot not found for update");
-                return;
-            }
-
-            setItinerary(updatedItinerary);
-            setManualEditModalOpen(false);
-
-            // Update Budget
-            if (budget) {
-                const oldCost = parseCost(oldActivity.cost);
-                const newCost = parseCost(updatedActivity.cost);
-                const diff = newCost - oldCost;
-
-                setBudget({
-                    ...budget,
-                    activities: Math.max(0, budget.activities + diff),
-                    total: Math.max(0, budget.total + diff)
-                });
-
-                const diffText = diff > 0 ? `+${diff.toLocaleString()}` : diff.toLocaleString();
-                toast.success(`Activity updated! Budget: ${diffText}`);
-            } else {
-                toast.success("Activity updated!");
-            }
-        } catch (error) {
-            console.error("Error saving manual edit:", error);
-            toast.error("Failed to save changes. Please try again.");
-        }
-    };
-
-    const handleAlternativeSelect = (newActivity: Activity) => {
-        if (!selectedContext || !itinerary) return;
-
-        const { dayIndex, period } = selectedContext;
-        const currentDay = itinerary[dayIndex];
-        const oldActivity = (currentDay.activities as any)[period];
-
-        const updatedItinerary = [...itinerary];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (updatedItinerary[dayIndex].activities as any)[period] = newActivity;
-
-        setItinerary(updatedItinerary);
-        setRegenerateModalOpen(false);
-
-        // Update Budget
-        if (budget) {
-            const oldCost = parseCost(oldActivity.cost);
-            const newCost = parseCost(newActivity.cost);
-            const diff = newCost - oldCost;
-
-            setBudget({
-                ...budget,
-                activities: Math.max(0, budget.activities + diff),
-                total: Math.max(0, budget.total + diff)
-            });
+    if (isLoading) return <LoadingScreen />;
 
-            // Show toast with diff
-            const diffText = diff > 0 ? `+${diff.toLocaleString()}` : diff.toLocaleString();
-            toast.success(`Activity updated! Budget: ${diffText}`);
-        } else {
-            toast.success("Activity updated!");
-        }
-    };
+    if (isGenerating && tripData) {
+        const streamedDays = toRenderableDays(partialTrip, tripData.currency || DEFAULT_CURRENCY);
+        const status = describeProgress(partialTrip, tripData.days);
 
-    if (isLoading) return <LoadingScreen />;
+        // Nothing to show until the first day exists
+        if (streamedDays.length === 0) return (
+            <LoadingScreen
+                title={regenerationCount > 0 || itinerary ? "Regenerating your trip" : "Planning your trip"}
+                message={status.message}
+                progress={status.progress}
+            />
+        );
 
-    if (isRegeneratingTrip) return (
-        <LoadingScreen
-            title="Regenerating your trip"
-            steps={[
-                { text: "Discarding previous plan...", duration: 2000 },
-                { text: "Rethinking your itinerary...", duration: 2500 },
-                { text: "Finding new hidden gems...", duration: 2500 },
-                { text: "Polishing the details...", duration: 2000 },
-            ]}
-        />
-    );
+        return (
+            <TripView
+                tripData={tripData}
+                itinerary={streamedDays}
+                budgetBreakdown={null}
+                isPreview={true}
+                generationStatus={status}
+            />
+        );
+    }
 
     if (!tripData || !itinerary || !budget) return null;
 
@@ -393,41 +300,22 @@ export default function PreviewPage() {
                 isSaving={isSaving}
                 isPreview={true}
                 onActivityUpdate={handleActivityUpdate}
+                onAddActivity={handleAddActivity}
+                onMoveActivity={handleMoveActivity}
                 weather={weather || undefined}
                 hotels={hotels}
                 onRegenerate={handleFullRegeneration}
+                history={{
+                    onUndo: undo,
+                    onRedo: redo,
+                    undoLabel,
+                    redoLabel,
+                }}
                 regenerationCount={regenerationCount}
+                budgetActions={budgetActions}
             />
 
-            <RegenerateModal
-                isOpen={regenerateModalOpen}
-                onClose={() => setRegenerateModalOpen(false)}
-                isLoading={isFetchingAlternatives}
-                alternatives={alternatives}
-                onSelect={handleAlternativeSelect}
-            />
-
-            <ManualEditModal
-                isOpen={manualEditModalOpen}
-                onClose={() => setManualEditModalOpen(false)}
-                activity={activityToEdit}
-                onSave={handleManualEditSave}
-            />
-
-            <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-                <AlertDialogContent className="bg-white dark:bg-zinc-900 border-none rounded-2xl">
-                    <AlertDialogHeader>
-                        <AlertDialogTitle className="text-xl font-bold text-emerald-950">Remove Activity?</AlertDialogTitle>
-                        <AlertDialogDescription className="text-emerald-800/70">
-                            This will delete the activity completely. Are you sure you want to delete?
-                        </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                        <AlertDialogCancel className="rounded-full border-none hover:bg-emerald-50 text-emerald-700">Cancel</AlertDialogCancel>
-                        <AlertDialogAction onClick={handleConfirmDelete} className="bg-red-500 hover:bg-red-600 rounded-full px-6 font-bold">Remove</AlertDialogAction>
-                    </AlertDialogFooter>
-                </AlertDialogContent>
-            </AlertDialog>
+            {dialogs}
         </>
     );
 }
@@ -1,6 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Plus_Jakarta_Sans, Playfair_Display } from "next/font/google";
 import { Toaster } from "sonner";
+import { OfflineSupport } from "@/components/OfflineSupport";
 import "./globals.css";
 
 const sans = Plus_Jakarta_Sans({ subsets: ["latin"] });
@@ -9,6 +10,15 @@ const serif = Playfair_Display({ subsets: ["latin"], variable: '--font-serif' })
 export const metadata: Metadata = {
   title: "Pathfinder",
   description: "Plan your next trip with AI.",
+  appleWebApp: {
+    capable: true,
+    title: "Pathfinder",
+    statusBarStyle: "default",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#0d9488",
 };
 
 export default function RootLayout({
@@ -23,6 +33,7 @@ export default function RootLayout({
       >
         {children}
         <Toaster richColors position="top-center" />
+        <OfflineSupport />
       </body>
     </html>
   );
@@ -0,0 +1,27 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+    return {
+        name: "Pathfinder",
+        short_name: "Pathfinder",
+        description: "Plan your next trip with AI.",
+        id: "/",
+        start_url: "/dashboard",
+        scope: "/",
+        display: "standalone",
+        orientation: "portrait",
+        background_color: "#ecfdf5",
+        theme_color: "#0d9488",
+        icons: [
+            { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+            { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png", purpose: "any" },
+            { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "any" },
+            { src: "/icons/maskable-192.png", sizes: "192x192", type: "image/png", purpose: "maskable" },
+            { src: "/icons/maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+        ],
+        shortcuts: [
+            { name: "My Trips", url: "/dashboard" },
+            { name: "Plan a Trip", url: "/plan" },
+        ],
+    };
+}
@@ -0,0 +1,23 @@
+import Link from "next/link";
+import { WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Served by the service worker when a page that was never cached is opened without a connection
+export default function OfflinePage() {
+    return (
+        <main className="min-h-screen flex items-center justify-center bg-emerald-50/50 p-6">
+            <div className="max-w-md text-center space-y-4">
+                <div className="bg-emerald-100/50 w-20 h-20 rounded-full flex items-center justify-center mx-auto text-emerald-600">
+                    <WifiOff className="w-10 h-10" />
+                </div>
+                <h1 className="text-3xl font-black text-emerald-950 tracking-tight font-serif">You&apos;re offline</h1>
+                <p className="text-emerald-600/80 font-medium">
+                    This page isn&apos;t available without a connection. Your saved trips are still on this device.
+                </p>
+                <Button asChild className="rounded-full bg-emerald-600 hover:bg-emerald-700 text-white font-bold px-8">
+                    <Link href="/dashboard">Open My Trips</Link>
+                </Button>
+            </div>
+        </main>
+    );
+}
@@ -7,60 +7,32 @@ import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { TripInputForm, TripFormData } from "@/components/TripInputForm";
 import { Plane, Compass, Ticket, Map as MapIcon, ArrowLeft } from "lucide-react";
-import { toast } from "sonner";
 import { LoadingScreen } from "@/components/LoadingScreen";
 
 export default function PlanPage() {
     const [isLoading, setIsLoading] = useState(false);
     const router = useRouter();
 
-    // API Call Handler
-    const handleGenerate = async (data: TripFormData) => {
+    // Hand the trip parameters to the preview page, which streams the itinerary in as it is generated
+    const handleGenerate = (data: TripFormData) => {
         setIsLoading(true);
 
-        try {
-            // Transform data structure to match what API expects
-            const payload = {
-                ...data,
-                dateRange: {
-                    from: format(data.startDate, "yyyy-MM-dd"),
-                    to: format(data.endDate, "yyyy-MM-dd"),
-                }
-            };
-
-            const response = await fetch("/api/generate", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                },
-                body: JSON.stringify(payload),
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({}));
-                throw new Error(errorData.error || "Failed to generate itinerary");
+        // Transform data structure to match what API expects
+        const payload = {
+            ...data,
+            dateRange: {
+                from: format(data.startDate, "yyyy-MM-dd"),
+                to: format(data.endDate, "yyyy-MM-dd"),
             }
+        };
 
-            const result = await response.json();
-
-            // Save to Local Storage for the Preview Page to pick up
-            localStorage.setItem("currentTrip", JSON.stringify({
-                itinerary: result.itinerary,
-                budget: result.budget,
-                weather: result.weather,
-                hotels: result.hotels,
-                formData: data
-            }));
-
-            toast.success("Itinerary generated! Redirecting...");
-            router.push("/itinerary/preview");
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        } catch (error: any) {
-            console.error(error);
-            toast.error(error.message || "Something went wrong! Please try again.");
-            setIsLoading(false);
-        }
+        // Save to Local Storage for the Preview Page to pick up
+        localStorage.setItem("currentTrip", JSON.stringify({
+            formData: payload, // Keeps the computed dateRange for regeneration and saving
+            status: "generating"
+        }));
+
+        router.push("/itinerary/preview");
     };
 
     return (
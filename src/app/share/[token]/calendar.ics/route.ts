@@ -0,0 +1,29 @@
+import { supabase } from "@/lib/supabaseClient";
+import { ItineraryRow, rowToSavedTrip } from "@/lib/itineraries";
+import { buildCalendar } from "@/lib/calendar";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// Subscribable calendar feed for a share link. Built from the saved trip on every fetch, so edits show up
+// the next time the calendar app refreshes; revoking or expiring the link stops the feed.
+export async function GET(_req: Request, { params }: RouteContext) {
+    const { token } = await params;
+
+    const { data, error } = await supabase.rpc('get_shared_calendar', { share_token: token });
+    if (error) {
+        console.error("Calendar Feed Error:", error);
+        return new Response("Failed to load calendar", { status: 500 });
+    }
+    if (!data) return new Response("This calendar is no longer available", { status: 404 });
+
+    const row = data as ItineraryRow;
+    const trip = rowToSavedTrip(row);
+
+    return new Response(buildCalendar(trip.itinerary, trip.tripData, { tripId: row.id }), {
+        headers: {
+            "Content-Type": "text/calendar; charset=utf-8",
+            "Content-Disposition": 'inline; filename="itinerary.ics"',
+            "Cache-Control": "no-store",
+        },
+    });
+}
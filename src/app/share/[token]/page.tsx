@@ -0,0 +1,51 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Link2Off } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TripView } from "@/components/TripView";
+import { supabase } from "@/lib/supabaseClient";
+import { ItineraryRow, rowToSavedTrip } from "@/lib/itineraries";
+
+export const metadata: Metadata = {
+    title: "Shared Trip · Pathfinder",
+    robots: { index: false }, // Share links are private to whoever has them
+};
+
+// Public, read-only view of a trip. Rendered on the server so each visit is counted once.
+export default async function SharedTripPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+
+    // Null for unknown, revoked or expired tokens; also counts the view
+    const { data, error } = await supabase.rpc('get_shared_itinerary', { share_token: token });
+    if (error) console.error("Error loading shared trip:", error);
+
+    if (!data) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-6 bg-zinc-50 dark:bg-zinc-950 p-6 text-center">
+                <div className="p-4 bg-emerald-100 rounded-full text-emerald-600">
+                    <Link2Off className="w-8 h-8" />
+                </div>
+                <div className="space-y-2">
+                    <h1 className="text-3xl font-black text-emerald-950">This link is no longer available</h1>
+                    <p className="text-emerald-800/70">It may have expired or been revoked by the trip owner.</p>
+                </div>
+                <Button asChild className="rounded-full px-6 bg-orange-500 hover:bg-orange-600 text-white font-bold">
+                    <Link href="/plan">Plan Your Own Trip</Link>
+                </Button>
+            </div>
+        );
+    }
+
+    const trip = rowToSavedTrip(data as ItineraryRow);
+
+    return (
+        <TripView
+            tripData={trip.tripData}
+            itinerary={trip.itinerary}
+            budgetBreakdown={trip.budget}
+            isSharedView={true}
+            weather={trip.weather || undefined}
+            hotels={trip.hotels}
+        />
+    );
+}
@@ -7,18 +7,26 @@ import {
     DropdownMenuItem,
     DropdownMenuLabel,
     DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, RefreshCw, Pencil, Trash2, Sparkles } from "lucide-react";
+import { MoreHorizontal, RefreshCw, Pencil, Trash2, Sparkles, Plus, ArrowUp, ArrowDown, CalendarDays } from "lucide-react";
+import type { AddActivitySource } from "@/components/ItineraryDisplay";
 
 interface ActivityActionMenuProps {
     onRegenerate: () => void;
     onEdit: () => void;
     onRemove: () => void;
     isRegenerating?: boolean;
+    // Keyboard-friendly alternatives to drag and drop; the move section is hidden without them
+    onMoveUp?: () => void;
+    onMoveDown?: () => void;
+    moveTargets?: { label: string, onSelect?: () => void }[];
 }
 
-export function ActivityActionMenu({ onRegenerate, onEdit, onRemove, isRegenerating = false }: ActivityActionMenuProps) {
+export function ActivityActionMenu({ onRegenerate, onEdit, onRemove, isRegenerating = false, onMoveUp, onMoveDown, moveTargets }: ActivityActionMenuProps) {
     return (
         <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -40,6 +48,38 @@ export function ActivityActionMenu({ onRegenerate, onEdit, onRemove, isRegenerat
                     Edit Manually
                 </DropdownMenuItem>
 
+                {moveTargets && (
+                    <>
+                        <DropdownMenuSeparator className="bg-emerald-100/50" />
+
+                        <DropdownMenuItem onClick={onMoveUp} disabled={!onMoveUp} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                            <ArrowUp className="h-4 w-4" />
+                            Move Up
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem onClick={onMoveDown} disabled={!onMoveDown} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                            <ArrowDown className="h-4 w-4" />
+                            Move Down
+                        </DropdownMenuItem>
+
+                        {moveTargets.length > 1 && (
+                            <DropdownMenuSub>
+                                <DropdownMenuSubTrigger className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                                    <CalendarDays className="h-4 w-4" />
+                                    Move to Day
+                                </DropdownMenuSubTrigger>
+                                <DropdownMenuSubContent className="border-emerald-100 bg-white/95 backdrop-blur-sm max-h-64 overflow-y-auto">
+                                    {moveTargets.map((target) => (
+                                        <DropdownMenuItem key={target.label} onClick={target.onSelect} disabled={!target.onSelect} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 cursor-pointer">
+                                            {target.label}
+                                        </DropdownMenuItem>
+                                    ))}
+                                </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                        )}
+                    </>
+                )}
+
                 <DropdownMenuSeparator className="bg-emerald-100/50" />
 
                 <DropdownMenuItem onClick={onRemove} className="text-red-600 focus:bg-red-50 focus:text-red-700 gap-2 cursor-pointer">
@@ -50,3 +90,28 @@ export function ActivityActionMenu({ onRegenerate, onEdit, onRemove, isRegenerat
         </DropdownMenu>
     );
 }
+
+// "Add activity" button at the bottom of a day
+export function AddActivityMenu({ onAdd }: { onAdd: (source: AddActivitySource) => void }) {
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="w-full rounded-2xl border-2 border-dashed border-emerald-100 text-emerald-700 hover:bg-emerald-50 hover:text-emerald-900 gap-2">
+                    <Plus className="h-4 w-4" />
+                    Add Activity
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="center" className="w-[220px] border-emerald-100 bg-white/95 backdrop-blur-sm">
+                <DropdownMenuItem onClick={() => onAdd('suggest')} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                    <Sparkles className="h-4 w-4 text-orange-500" />
+                    Suggest with AI
+                </DropdownMenuItem>
+
+                <DropdownMenuItem onClick={() => onAdd('manual')} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                    <Pencil className="h-4 w-4" />
+                    Add Manually
+                </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader2, MessageSquare, Send, ThumbsDown, ThumbsUp, Trash2 } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Activity } from "@/components/ItineraryDisplay";
+import { ActivityFeedback, CommentRow, EMPTY_FEEDBACK, VoteValue } from "@/lib/feedback";
+
+interface ActivityDiscussionDialogProps {
+    activity: Activity | null; // Open while set
+    onClose: () => void;
+    comments: CommentRow[]; // This activity's thread, oldest first
+    feedback?: ActivityFeedback;
+    currentUserId: string | null;
+    canModerate: boolean;
+    onVote: (value: VoteValue) => void;
+    onComment: (body: string) => Promise<boolean>; // Resolves to whether it was posted
+    onDeleteComment: (comment: CommentRow) => void;
+}
+
+export function ActivityDiscussionDialog({ activity, onClose, comments, feedback = EMPTY_FEEDBACK, currentUserId, canModerate, onVote, onComment, onDeleteComment }: ActivityDiscussionDialogProps) {
+    const [draft, setDraft] = useState("");
+    const [isPosting, setIsPosting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+
+        setIsPosting(true);
+        if (await onComment(draft)) setDraft("");
+        setIsPosting(false);
+    };
+
+    const voteButton = (value: VoteValue) => {
+        const isActive = feedback.myVote === value;
+        const isUp = value === 1;
+        return (
+            <Button
+                type="button"
+                variant="outline"
+                onClick={() => onVote(value)}
+                aria-pressed={isActive}
+                className={`gap-2 rounded-full ${isActive
+                    ? isUp ? "bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-700 hover:text-white" : "bg-red-500 text-white border-red-500 hover:bg-red-600 hover:text-white"
+                    : "border-emerald-200 text-emerald-700 hover:bg-emerald-50"}`}
+            >
+                {isUp ? <ThumbsUp className="w-4 h-4" /> : <ThumbsDown className="w-4 h-4" />}
+                {isUp ? feedback.up : feedback.down}
+            </Button>
+        );
+    };
+
+    return (
+        <Dialog open={!!activity} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-lg bg-white dark:bg-zinc-900 border-none rounded-3xl overflow-hidden">
+                <DialogHeader className="bg-emerald-50/50 p-6 pb-2">
+                    <div className="flex items-center gap-2 mb-2">
+                        <div className="p-2 bg-emerald-100 rounded-full text-emerald-600">
+                            <MessageSquare className="w-5 h-5" />
+                        </div>
+                    </div>
+                    <DialogTitle className="text-2xl font-black text-emerald-950">{activity?.name}</DialogTitle>
+                    <DialogDescription className="text-emerald-800/70">
+                        Vote and talk it over with your co-planners.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="p-6 space-y-5">
+                    <div className="flex gap-3">
+                        {voteButton(1)}
+                        {voteButton(-1)}
+                    </div>
+
+                    <div className="space-y-3 max-h-72 overflow-y-auto">
+                        {comments.map((comment) => {
+                            const isOwn = comment.user_id === currentUserId;
+                            return (
+                                <div key={comment.id} className="group rounded-2xl bg-emerald-50/50 px-4 py-3 space-y-1">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-xs font-bold text-emerald-900 truncate">{isOwn ? "You" : comment.author_email || "Someone"}</span>
+                                        <span className="flex items-center gap-1 shrink-0">
+                                            <span className="text-[10px] text-emerald-800/50">{format(parseISO(comment.created_at), "MMM d · HH:mm")}</span>
+                                            {(isOwn || canModerate) && (
+                                                <Button size="sm" variant="ghost" onClick={() => onDeleteComment(comment)} className="h-6 px-1 text-red-600 hover:bg-red-50 opacity-0 group-hover:opacity-100 focus-visible:opacity-100">
+                                                    <Trash2 className="w-3 h-3" />
+                                                    <span className="sr-only">Delete comment</span>
+                                                </Button>
+                                            )}
+                                        </span>
+                                    </div>
+                                    <p className="text-sm text-emerald-950 whitespace-pre-wrap break-words">{comment.body}</p>
+                                </div>
+                            );
+                        })}
+
+                        {comments.length === 0 && (
+                            <p className="text-sm text-emerald-800/50 italic px-1">No comments yet. Start the discussion.</p>
+                        )}
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+                        <Textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                // Enter posts, Shift+Enter adds a line
+                                if (e.key === "Enter" && !e.shiftKey) {
+                                    e.preventDefault();
+                                    e.currentTarget.form?.requestSubmit();
+                                }
+                            }}
+                            placeholder="Add a comment..."
+                            maxLength={2000}
+                            className="flex-1 min-h-[44px] resize-none bg-emerald-50/50 border-emerald-100"
+                        />
+                        <Button type="submit" size="icon" disabled={isPosting || !draft.trim()} className="rounded-full bg-orange-500 hover:bg-orange-600 text-white shrink-0">
+                            {isPosting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                            <span className="sr-only">Post comment</span>
+                        </Button>
+                    </form>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
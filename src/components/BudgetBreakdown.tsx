@@ -1,5 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Wallet, PieChart, Hotel, Utensils, Ticket, Car, ShoppingBag } from "lucide-react";
+import { formatMoney } from "@/lib/currency";
+import type { ActualSpend } from "@/lib/expenses";
 
 // 1. Define Data Interface
 export interface Budget {
@@ -15,9 +17,10 @@ export interface Budget {
 interface BudgetBreakdownProps {
     budget: Budget;
     budgetLimit?: number;
+    actual?: ActualSpend; // Saved trips with logged expenses: shown under each estimate
 }
 
-export function BudgetBreakdown({ budget, budgetLimit }: BudgetBreakdownProps) {
+export function BudgetBreakdown({ budget, budgetLimit, actual }: BudgetBreakdownProps) {
     const categories = [
         { key: 'accommodation', label: 'Accommodation', icon: <Hotel className="w-5 h-5 text-indigo-500" /> },
         { key: 'food', label: 'Food', icon: <Utensils className="w-5 h-5 text-orange-500" /> },
@@ -34,7 +37,7 @@ export function BudgetBreakdown({ budget, budgetLimit }: BudgetBreakdownProps) {
             <CardHeader className="bg-orange-50 p-6 border-b border-orange-100">
                 <CardTitle className="flex items-center gap-2 text-xl font-bold text-orange-800">
                     <Wallet className="w-6 h-6 text-orange-500" />
-                    Estimated Costs
+                    {actual ? "Estimated vs. Actual" : "Estimated Costs"}
                 </CardTitle>
             </CardHeader>
             <CardContent className="p-6">
@@ -47,8 +50,15 @@ export function BudgetBreakdown({ budget, budgetLimit }: BudgetBreakdownProps) {
                                 </div>
                                 <span className="font-medium text-emerald-900/70">{item.label}</span>
                             </div>
-                            <div className="font-bold text-emerald-950">
-                                {budget.currency} {budget[item.key as keyof typeof budget]?.toLocaleString()}
+                            <div className="text-right">
+                                <div className="font-bold text-emerald-950">
+                                    {formatMoney(budget[item.key], budget.currency)}
+                                </div>
+                                {actual && (
+                                    <div className={`text-xs font-medium ${actual[item.key] > budget[item.key] ? "text-red-500" : "text-teal-600"}`}>
+                                        {formatMoney(actual[item.key], budget.currency)} spent
+                                    </div>
+                                )}
                             </div>
                         </div>
                     ))}
@@ -60,9 +70,18 @@ export function BudgetBreakdown({ budget, budgetLimit }: BudgetBreakdownProps) {
                             Total
                         </span>
                         <span className={`text-2xl font-black ${isOverBudget ? "text-red-500" : "text-orange-600"}`}>
-                            {budget.currency} {budget.total.toLocaleString()}
+                            {formatMoney(budget.total, budget.currency)}
                         </span>
                     </div>
+                    {actual && (
+                        <div className="flex justify-between items-center mt-2 text-sm">
+                            <span className="font-medium text-emerald-800/60">Spent so far</span>
+                            <span className={`font-bold ${actual.total > budget.total ? "text-red-500" : "text-teal-600"}`}>
+                                {formatMoney(actual.total, budget.currency)}
+                                <span className="font-normal text-emerald-800/50"> · {formatMoney(Math.abs(budget.total - actual.total), budget.currency)} {actual.total > budget.total ? "over" : "left"}</span>
+                            </span>
+                        </div>
+                    )}
                 </div>
 
                 {isOverBudget && (
@@ -73,7 +92,7 @@ export function BudgetBreakdown({ budget, budgetLimit }: BudgetBreakdownProps) {
                         <div>
                             <h4 className="font-bold text-red-700 text-sm">Over Budget Warning</h4>
                             <p className="text-xs text-red-600/80 mt-1">
-                                You are <span className="font-bold">{budget.currency} {overAmount.toLocaleString()}</span> over your limit of {budget.currency} {budgetLimit?.toLocaleString()}.
+                                You are <span className="font-bold">{formatMoney(overAmount, budget.currency)}</span> over your limit of {formatMoney(budgetLimit || 0, budget.currency)}.
                             </p>
                         </div>
                     </div>
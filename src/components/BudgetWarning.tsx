@@ -1,6 +1,6 @@
 "use client";
 
-import { AlertTriangle, TrendingDown, Wallet, CalendarClock } from "lucide-react";
+import { AlertTriangle, TrendingDown, Wallet, CalendarClock, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
     Card,
@@ -10,6 +10,7 @@ import {
     CardHeader,
     CardTitle,
 } from "@/components/ui/card";
+import { formatMoney } from "@/lib/currency";
 
 interface BudgetWarningProps {
     currentBudget: number;
@@ -19,6 +20,7 @@ interface BudgetWarningProps {
     onOptimizeCheaper: () => void;
     onShortenTrip: () => void;
     days: number;
+    isOptimizing?: boolean; // Cheaper options are being generated; the other actions wait for it
 }
 
 export function BudgetWarning({
@@ -28,11 +30,12 @@ export function BudgetWarning({
     onAdjustBudget,
     onOptimizeCheaper,
     onShortenTrip,
-    days
+    days,
+    isOptimizing = false
 }: BudgetWarningProps) {
     const diff = estimatedCost - currentBudget;
-    const diffFormatted = diff.toLocaleString();
-    const estFormatted = estimatedCost.toLocaleString();
+    const diffFormatted = formatMoney(diff, currency);
+    const estFormatted = formatMoney(estimatedCost, currency);
 
     if (diff <= 0) return null;
 
@@ -44,18 +47,18 @@ export function BudgetWarning({
                     <CardTitle className="text-lg font-bold">Budget Alert</CardTitle>
                 </div>
                 <CardDescription className="text-orange-900/80">
-                    This itinerary is currently <strong>{diffFormatted} {currency}</strong> over your budget.
+                    This itinerary is currently <strong>{diffFormatted}</strong> over your budget.
                 </CardDescription>
             </CardHeader>
             <CardContent className="grid gap-4">
                 <div className="flex justify-between items-center bg-white/60 p-3 rounded-lg border border-orange-100">
                     <div className="text-sm">
                         <p className="text-muted-foreground">Your Budget</p>
-                        <p className="font-semibold text-emerald-700">{currentBudget.toLocaleString()} {currency}</p>
+                        <p className="font-semibold text-emerald-700">{formatMoney(currentBudget, currency)}</p>
                     </div>
                     <div className="text-right text-sm">
                         <p className="text-muted-foreground">Est. Cost</p>
-                        <p className="font-bold text-red-600">{estFormatted} {currency}</p>
+                        <p className="font-bold text-red-600">{estFormatted}</p>
                     </div>
                 </div>
 
@@ -64,6 +67,7 @@ export function BudgetWarning({
                         variant="outline"
                         className="bg-white border-orange-200 hover:bg-orange-100 text-orange-900 h-auto py-3 flex flex-col gap-1 items-start"
                         onClick={() => onAdjustBudget(estimatedCost)}
+                        disabled={isOptimizing}
                     >
                         <span className="flex items-center gap-2 font-bold text-xs uppercase tracking-wider text-orange-700">
                             <Wallet className="w-4 h-4" /> Raise Budget
@@ -77,12 +81,13 @@ export function BudgetWarning({
                         variant="outline"
                         className="bg-white border-orange-200 hover:bg-orange-100 text-orange-900 h-auto py-3 flex flex-col gap-1 items-start"
                         onClick={onOptimizeCheaper}
+                        disabled={isOptimizing}
                     >
                         <span className="flex items-center gap-2 font-bold text-xs uppercase tracking-wider text-orange-700">
-                            <TrendingDown className="w-4 h-4" /> Find Cheaper
+                            {isOptimizing ? <Loader2 className="w-4 h-4 animate-spin" /> : <TrendingDown className="w-4 h-4" />} Find Cheaper
                         </span>
                         <span className="text-xs text-left leading-tight opacity-80">
-                            Regenerate with budget options
+                            {isOptimizing ? "Finding cheaper options..." : "Regenerate with budget options"}
                         </span>
                     </Button>
 
@@ -90,7 +95,7 @@ export function BudgetWarning({
                         variant="outline"
                         className="bg-white border-orange-200 hover:bg-orange-100 text-orange-900 h-auto py-3 flex flex-col gap-1 items-start"
                         onClick={onShortenTrip}
-                        disabled={days <= 1}
+                        disabled={days <= 1 || isOptimizing}
                     >
                         <span className="flex items-center gap-2 font-bold text-xs uppercase tracking-wider text-orange-700">
                             <CalendarClock className="w-4 h-4" /> Shorten Trip
@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, LogOut, Trash2, UserPlus, Users } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { authHeaders } from "@/lib/supabaseClient";
+import { CollaboratorRole, CollaboratorRow, ItineraryRole, ROLE_LABELS, canManage } from "@/lib/permissions";
+
+interface CollaboratorsDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    itineraryId: string;
+    role: ItineraryRole;
+    currentUserId: string | null;
+}
+
+export function CollaboratorsDialog({ isOpen, onClose, itineraryId, role, currentUserId }: CollaboratorsDialogProps) {
+    const router = useRouter();
+    const [collaborators, setCollaborators] = useState<CollaboratorRow[]>([]);
+    const [email, setEmail] = useState("");
+    const [inviteRole, setInviteRole] = useState<CollaboratorRole>("editor");
+    const [isInviting, setIsInviting] = useState(false);
+
+    const endpoint = `/api/itinerary/${itineraryId}/collaborators`;
+    const isOwner = canManage(role);
+
+    // Calls the collaborators API as the signed-in user; resolves to the JSON body or null after showing the error
+    const request = useCallback(async (url: string, init: RequestInit = {}) => {
+        const response = await fetch(url, {
+            ...init,
+            headers: { "Content-Type": "application/json", ...(await authHeaders()), ...init.headers },
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            toast.error(data.error || "Something went wrong. Please try again.");
+            return null;
+        }
+        return data;
+    }, []);
+
+    const loadCollaborators = useCallback(async (): Promise<CollaboratorRow[] | null> => {
+        const data = await request(endpoint);
+        return data ? data.collaborators : null;
+    }, [request, endpoint]);
+
+    const refresh = async () => {
+        const rows = await loadCollaborators();
+        if (rows) setCollaborators(rows);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadCollaborators().then((rows) => {
+            if (rows) setCollaborators(rows);
+        });
+    }, [isOpen, loadCollaborators]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email.trim()) return;
+
+        setIsInviting(true);
+        const data = await request(endpoint, {
+            method: "POST",
+            body: JSON.stringify({ email: email.trim(), role: inviteRole }),
+        });
+        if (data) {
+            toast.success(`${data.collaborator.email} can now ${inviteRole === "editor" ? "edit" : "view"} this trip.`);
+            setEmail("");
+            await refresh();
+        }
+        setIsInviting(false);
+    };
+
+    const handleRoleChange = async (collaborator: CollaboratorRow, newRole: CollaboratorRole) => {
+        const data = await request(endpoint, {
+            method: "PATCH",
+            body: JSON.stringify({ collaboratorId: collaborator.id, role: newRole }),
+        });
+        if (data) refresh();
+    };
+
+    const handleRemove = async (collaborator: CollaboratorRow) => {
+        const data = await request(`${endpoint}?collaboratorId=${collaborator.id}`, { method: "DELETE" });
+        if (!data) return;
+
+        if (collaborator.user_id === currentUserId) {
+            toast.success("You left the trip.");
+            router.push("/dashboard");
+            return;
+        }
+        toast.success(`${collaborator.email} was removed.`);
+        refresh();
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onClose}>
+            <DialogContent className="max-w-lg bg-white dark:bg-zinc-900 border-none rounded-3xl overflow-hidden">
+                <DialogHeader className="bg-emerald-50/50 p-6 pb-2">
+                    <div className="flex items-center gap-2 mb-2">
+                        <div className="p-2 bg-emerald-100 rounded-full text-emerald-600">
+                            <Users className="w-5 h-5" />
+                        </div>
+                    </div>
+                    <DialogTitle className="text-2xl font-black text-emerald-950">Co-planners</DialogTitle>
+                    <DialogDescription className="text-emerald-800/70">
+                        Editors can change the plan; viewers can only look. People need a Pathfinder account to be invited.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="p-6 space-y-6">
+                    {/* Invite */}
+                    {isOwner && (
+                        <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3">
+                            <Input
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="friend@example.com"
+                                className="flex-1 bg-emerald-50/50 border-emerald-100"
+                            />
+                            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as CollaboratorRole)}>
+                                <SelectTrigger className="sm:w-32 bg-emerald-50/50 border-emerald-100">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-white">
+                                    <SelectItem value="editor">Editor</SelectItem>
+                                    <SelectItem value="viewer">Viewer</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button type="submit" disabled={isInviting || !email.trim()} className="gap-2 rounded-full px-5 bg-orange-500 hover:bg-orange-600 text-white font-bold">
+                                {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                                Invite
+                            </Button>
+                        </form>
+                    )}
+
+                    {/* Members */}
+                    <div className="space-y-2 max-h-72 overflow-y-auto">
+                        <div className="flex items-center justify-between rounded-2xl bg-emerald-50/50 px-4 py-3">
+                            <span className="text-sm font-medium text-emerald-950">{isOwner ? "You" : "Trip owner"}</span>
+                            <span className="text-xs font-bold text-emerald-700">{ROLE_LABELS.owner}</span>
+                        </div>
+
+                        {collaborators.map((collaborator) => {
+                            const isSelf = collaborator.user_id === currentUserId;
+                            return (
+                                <div key={collaborator.id} className="flex items-center justify-between gap-3 rounded-2xl border border-emerald-100 px-4 py-2">
+                                    <span className="text-sm text-emerald-950 truncate">{isSelf ? "You" : collaborator.email}</span>
+                                    <span className="flex items-center gap-1 shrink-0">
+                                        {isOwner ? (
+                                            <Select value={collaborator.role} onValueChange={(value) => handleRoleChange(collaborator, value as CollaboratorRole)}>
+                                                <SelectTrigger className="h-8 w-28 text-xs border-emerald-100">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent className="bg-white">
+                                                    <SelectItem value="editor">Editor</SelectItem>
+                                                    <SelectItem value="viewer">Viewer</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        ) : (
+                                            <span className="text-xs font-bold text-emerald-700 px-2">{ROLE_LABELS[collaborator.role]}</span>
+                                        )}
+                                        {(isOwner || isSelf) && (
+                                            <Button size="sm" variant="ghost" onClick={() => handleRemove(collaborator)} className="h-8 px-2 text-red-600 hover:bg-red-50">
+                                                {isSelf ? <LogOut className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+                                                <span className="sr-only">{isSelf ? "Leave trip" : "Remove"}</span>
+                                            </Button>
+                                        )}
+                                    </span>
+                                </div>
+                            );
+                        })}
+
+                        {collaborators.length === 0 && (
+                            <p className="text-sm text-emerald-800/50 italic px-1">Nobody else is on this trip yet.</p>
+                        )}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Receipt } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DayPlan } from "@/components/ItineraryDisplay";
+import { CURRENCIES, getCurrency } from "@/lib/currency";
+import { costCategory } from "@/lib/cost";
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_LABELS, ExpenseCategory, NewExpense } from "@/lib/expenses";
+
+interface ExpenseDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    itinerary: DayPlan[];
+    travelers: string[]; // Names, by position
+    currency: string; // Trip currency, the default for new expenses
+    onSave: (expense: NewExpense) => Promise<boolean>;
+}
+
+// "category:food" or "activity:<id>": what the expense is booked against
+type Target = `category:${ExpenseCategory}` | `activity:${string}`;
+
+// Mount with a new key for every expense; the form starts from these defaults
+export function ExpenseDialog({ isOpen, onClose, itinerary, travelers, currency, onSave }: ExpenseDialogProps) {
+    const [description, setDescription] = useState("");
+    const [target, setTarget] = useState<Target>("category:food");
+    const [amount, setAmount] = useState("");
+    const [expenseCurrency, setExpenseCurrency] = useState(currency);
+    const [spentOn, setSpentOn] = useState(() => format(new Date(), "yyyy-MM-dd"));
+    const [paidBy, setPaidBy] = useState(0);
+    const [sharedBy, setSharedBy] = useState<number[]>(() => travelers.map((_, index) => index));
+    const [isSaving, setIsSaving] = useState(false);
+
+    const activities = itinerary.flatMap((day) => day.activities.map((activity) => ({ activity, day: day.day })));
+    const selectedActivity = target.startsWith("activity:")
+        ? activities.find(({ activity }) => `activity:${activity.id}` === target)?.activity
+        : undefined;
+    const category = selectedActivity ? costCategory(selectedActivity.type) : target.slice("category:".length) as ExpenseCategory;
+    const value = parseFloat(amount);
+
+    const toggleSharer = (index: number, checked: boolean) => {
+        setSharedBy((current) => checked ? [...current, index].sort((a, b) => a - b) : current.filter((other) => other !== index));
+    };
+
+    const handleSubmit = async () => {
+        setIsSaving(true);
+        const saved = await onSave({
+            description: description.trim() || selectedActivity?.name || EXPENSE_CATEGORY_LABELS[category],
+            amount: value,
+            currency: expenseCurrency,
+            category,
+            activity_id: selectedActivity?.id ?? null,
+            paid_by: paidBy,
+            shared_by: sharedBy,
+            spent_on: spentOn,
+        });
+        setIsSaving(false);
+        if (saved) onClose();
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onClose}>
+            <DialogContent className="max-w-md bg-white dark:bg-zinc-900 border-none rounded-3xl overflow-hidden">
+                <DialogHeader className="bg-orange-50/50 p-6 pb-2">
+                    <div className="flex items-center gap-2 mb-2">
+                        <div className="p-2 bg-orange-100 rounded-full text-orange-600">
+                            <Receipt className="w-5 h-5" />
+                        </div>
+                    </div>
+                    <DialogTitle className="text-2xl font-black text-emerald-950">Log Expense</DialogTitle>
+                    <DialogDescription className="text-emerald-800/70">
+                        Record what was actually paid, who paid it and who it was for.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+                    <div className="space-y-2">
+                        <Label className="text-emerald-900">For</Label>
+                        <Select value={target} onValueChange={(next) => setTarget(next as Target)}>
+                            <SelectTrigger className="w-full bg-emerald-50/50 border-emerald-100">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-white max-h-72">
+                                <SelectGroup>
+                                    <SelectLabel>Category</SelectLabel>
+                                    {EXPENSE_CATEGORIES.map((key) => (
+                                        <SelectItem key={key} value={`category:${key}`}>{EXPENSE_CATEGORY_LABELS[key]}</SelectItem>
+                                    ))}
+                                </SelectGroup>
+                                {itinerary.map((day) => day.activities.length > 0 && (
+                                    <SelectGroup key={day.day}>
+                                        <SelectLabel>Day {day.day}</SelectLabel>
+                                        {day.activities.map((activity) => (
+                                            <SelectItem key={activity.id} value={`activity:${activity.id}`}>{activity.name}</SelectItem>
+                                        ))}
+                                    </SelectGroup>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="expense-description" className="text-emerald-900">Description</Label>
+                        <Input
+                            id="expense-description"
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            placeholder={selectedActivity?.name || "e.g. Groceries, museum tickets"}
+                            maxLength={200}
+                            className="bg-emerald-50/50 border-emerald-100 focus:ring-orange-500"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="expense-amount" className="text-emerald-900">Amount</Label>
+                            <div className="relative">
+                                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-emerald-900/40 font-medium">{getCurrency(expenseCurrency).symbol}</span>
+                                <Input
+                                    id="expense-amount"
+                                    type="number"
+                                    min={0}
+                                    step="any"
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                    className="bg-emerald-50/50 border-emerald-100 focus:ring-orange-500 pl-10"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label className="text-emerald-900">Currency</Label>
+                            <Select value={expenseCurrency} onValueChange={setExpenseCurrency}>
+                                <SelectTrigger className="w-full bg-emerald-50/50 border-emerald-100">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-white">
+                                    {CURRENCIES.map((c) => (
+                                        <SelectItem key={c.code} value={c.code}>{c.code} ({c.symbol})</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <Label className="text-emerald-900">Paid by</Label>
+                            <Select value={String(paidBy)} onValueChange={(next) => setPaidBy(Number(next))}>
+                                <SelectTrigger className="w-full bg-emerald-50/50 border-emerald-100">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-white">
+                                    {travelers.map((name, index) => (
+                                        <SelectItem key={index} value={String(index)}>{name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="expense-date" className="text-emerald-900">Date</Label>
+                            <Input
+                                id="expense-date"
+                                type="date"
+                                value={spentOn}
+                                onChange={(e) => setSpentOn(e.target.value)}
+                                className="bg-emerald-50/50 border-emerald-100 focus:ring-orange-500"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label className="text-emerald-900">Split between</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {travelers.map((name, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`expense-sharer-${index}`}
+                                        checked={sharedBy.includes(index)}
+                                        onCheckedChange={(checked) => toggleSharer(index, checked === true)}
+                                    />
+                                    <Label htmlFor={`expense-sharer-${index}`} className="text-sm text-emerald-800/70 font-normal truncate">{name}</Label>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <DialogFooter className="p-6 pt-0">
+                    <Button variant="ghost" onClick={onClose} className="hover:bg-emerald-50 text-emerald-700">Cancel</Button>
+                    <Button
+                        onClick={handleSubmit}
+                        disabled={!(value > 0) || sharedBy.length === 0 || !spentOn || isSaving}
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-bold rounded-full px-6"
+                    >
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Log Expense"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ArrowRight, Pencil, Plus, Receipt, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TripData } from "@/components/TripView";
+import { DayPlan } from "@/components/ItineraryDisplay";
+import { Budget } from "@/components/BudgetBreakdown";
+import { ExpenseDialog } from "@/components/ExpenseDialog";
+import { formatMoney } from "@/lib/currency";
+import { costTotal, formatCost } from "@/lib/cost";
+import { ExpenseRow, NewExpense, amountInTripCurrency, settleUp, travelerBalances, travelerNames } from "@/lib/expenses";
+
+interface ExpensesPanelProps {
+    expenses: ExpenseRow[];
+    tripData: TripData;
+    itinerary: DayPlan[];
+    budget: Budget;
+    onAddExpense?: (expense: NewExpense) => Promise<boolean>; // Omitted for viewers, who can only look
+    onDeleteExpense?: (expense: ExpenseRow) => void;
+    onRenameTravelers?: (names: string[]) => void;
+}
+
+export function ExpensesPanel({ expenses, tripData, itinerary, budget, onAddExpense, onDeleteExpense, onRenameTravelers }: ExpensesPanelProps) {
+    const [dialogKey, setDialogKey] = useState<number | null>(null); // New key per opening resets the form
+    const [editedNames, setEditedNames] = useState<string[] | null>(null);
+
+    const currency = budget.currency;
+    const names = travelerNames(tripData);
+    const spent = expenses.reduce((sum, expense) => sum + amountInTripCurrency(expense, currency), 0);
+    const balances = travelerBalances(expenses, names.length, currency);
+    const settlements = settleUp(expenses, names.length, currency);
+    const activities = new Map(itinerary.flatMap((day) => day.activities.map((activity) => [activity.id, activity] as const)));
+
+    const handleSaveNames = () => {
+        if (editedNames) onRenameTravelers?.(editedNames.map((name) => name.trim()));
+        setEditedNames(null);
+    };
+
+    return (
+        <div className="bg-white rounded-[2rem] shadow-xl shadow-emerald-900/5 overflow-hidden">
+            <div className="bg-teal-50 p-6 border-b border-teal-100 flex items-center justify-between gap-3">
+                <h3 className="text-xl font-bold text-teal-900 flex items-center gap-2">
+                    <Receipt className="w-5 h-5 text-teal-600" /> Expenses
+                </h3>
+                {onAddExpense && (
+                    <Button size="sm" onClick={() => setDialogKey(Date.now())} className="gap-1 rounded-xl bg-teal-600 hover:bg-teal-700 text-white h-8 text-xs font-bold">
+                        <Plus className="w-3 h-3" /> Log
+                    </Button>
+                )}
+            </div>
+
+            <div className="p-6 space-y-6">
+                {/* Actual vs. estimate */}
+                <div className="flex justify-between items-end">
+                    <div>
+                        <p className="text-xs font-bold uppercase tracking-wider text-emerald-800/50">Spent so far</p>
+                        <p className={`text-2xl font-black ${spent > budget.total ? "text-red-500" : "text-teal-700"}`}>{formatMoney(spent, currency)}</p>
+                    </div>
+                    <p className="text-xs text-emerald-800/60 text-right">
+                        of {formatMoney(budget.total, currency)} estimated
+                    </p>
+                </div>
+
+                {/* Travelers and where each one stands */}
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <p className="text-xs font-bold uppercase tracking-wider text-emerald-800/50">Travelers</p>
+                        {onRenameTravelers && !editedNames && (
+                            <button type="button" onClick={() => setEditedNames(names)} className="text-xs text-teal-700 hover:underline flex items-center gap-1">
+                                <Pencil className="w-3 h-3" /> Rename
+                            </button>
+                        )}
+                    </div>
+
+                    {editedNames ? (
+                        <div className="space-y-2">
+                            {editedNames.map((name, index) => (
+                                <Input
+                                    key={index}
+                                    value={name}
+                                    onChange={(e) => setEditedNames(editedNames.map((other, i) => i === index ? e.target.value : other))}
+                                    placeholder={`Traveler ${index + 1}`}
+                                    maxLength={40}
+                                    className="h-8 text-sm bg-emerald-50/50 border-emerald-100"
+                                />
+                            ))}
+                            <div className="flex justify-end gap-2">
+                                <Button size="sm" variant="ghost" onClick={() => setEditedNames(null)} className="h-8 text-xs text-emerald-700">Cancel</Button>
+                                <Button size="sm" onClick={handleSaveNames} className="h-8 text-xs rounded-xl bg-teal-600 hover:bg-teal-700 text-white">Done</Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <ul className="space-y-1">
+                            {names.map((name, index) => (
+                                <li key={index} className="flex justify-between text-sm">
+                                    <span className="text-emerald-950 truncate">{name}</span>
+                                    <span className={`font-bold ${balances[index] > 0 ? "text-teal-600" : balances[index] < 0 ? "text-orange-600" : "text-emerald-800/40"}`}>
+                                        {balances[index] > 0 ? "+" : ""}{formatMoney(balances[index], currency)}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Settle up */}
+                {expenses.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-xs font-bold uppercase tracking-wider text-emerald-800/50">Settle up</p>
+                        {settlements.length === 0 ? (
+                            <p className="text-sm text-emerald-800/60">Everyone is even.</p>
+                        ) : (
+                            <ul className="space-y-1">
+                                {settlements.map((settlement) => (
+                                    <li key={`${settlement.from}-${settlement.to}`} className="flex items-center gap-2 text-sm text-emerald-950">
+                                        <span className="truncate">{names[settlement.from]}</span>
+                                        <ArrowRight className="w-3 h-3 text-emerald-800/40 shrink-0" />
+                                        <span className="truncate">{names[settlement.to]}</span>
+                                        <span className="ml-auto font-bold">{formatMoney(settlement.amount, currency)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Log */}
+            {expenses.length > 0 ? (
+                <div className="divide-y divide-emerald-50 max-h-[360px] overflow-y-auto border-t border-emerald-50">
+                    {expenses.map((expense) => {
+                        const activity = expense.activity_id ? activities.get(expense.activity_id) : undefined;
+                        return (
+                            <div key={expense.id} className="p-4 flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-bold text-emerald-950 truncate">{expense.description}</p>
+                                    <p className="text-xs text-emerald-800/50 truncate">
+                                        {format(parseISO(expense.spent_on), "MMM d")} · {names[expense.paid_by] ?? names[0]} paid · split {expense.shared_by.length === names.length ? "by everyone" : `by ${expense.shared_by.length}`}
+                                    </p>
+                                    {activity && (
+                                        <p className="text-xs text-emerald-800/50 truncate">
+                                            Estimated {formatCost(activity.cost)}{activity.cost.per === "person" ? ` (${formatMoney(costTotal(activity.cost, tripData.travelers), currency)} total)` : ""}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <div className="text-right">
+                                        <p className="text-sm font-bold text-emerald-950">{formatMoney(Number(expense.amount), expense.currency)}</p>
+                                        {expense.currency !== currency && (
+                                            <p className="text-[10px] text-emerald-800/40">≈ {formatMoney(amountInTripCurrency(expense, currency), currency)}</p>
+                                        )}
+                                    </div>
+                                    {onDeleteExpense && (
+                                        <Button size="icon" variant="ghost" onClick={() => onDeleteExpense(expense)} className="h-8 w-8 text-emerald-800/40 hover:text-red-500 hover:bg-red-50">
+                                            <Trash2 className="w-3 h-3" />
+                                            <span className="sr-only">Delete expense</span>
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <p className="px-6 pb-6 text-sm text-emerald-800/60">
+                    Nothing logged yet. Log what you spend on the road to see it against the estimate and who owes whom.
+                </p>
+            )}
+
+            {onAddExpense && dialogKey !== null && (
+                <ExpenseDialog
+                    key={dialogKey}
+                    isOpen={true}
+                    onClose={() => setDialogKey(null)}
+                    itinerary={itinerary}
+                    travelers={names}
+                    currency={currency}
+                    onSave={onAddExpense}
+                />
+            )}
+        </div>
+    );
+}
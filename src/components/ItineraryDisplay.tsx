@@ -1,37 +1,89 @@
+"use client";
+
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Sun, MapPin, Moon, Utensils } from "lucide-react";
-import { ActivityActionMenu } from "@/components/ActivityActionMenu";
+import { Star, MapPin, Moon, Utensils, Car, GripVertical, Lock, MessageSquare, ThumbsDown, ThumbsUp } from "lucide-react";
+import { ActivityActionMenu, AddActivityMenu } from "@/components/ActivityActionMenu";
+import { ActivityCost, formatCost } from "@/lib/cost";
+import { insertionIndex } from "@/lib/time";
+import { PresenceUser } from "@/lib/realtime";
+import { ActivityFeedback } from "@/lib/feedback";
 
 // 1. Define Interfaces (Types)
+export type ActivityType = "sight" | "meal" | "transit" | "rest" | "custom";
+
 export interface Activity {
+    id: string; // Stable across edits and reorders
+    type: ActivityType;
     name: string;
     description: string;
     time: string; // e.g. "09:00 AM"
-    cost: string; // e.g. "Free" or "Rp 50,000"
+    cost: ActivityCost; // Older trips stored a string like "Rp 50.000"; normalized on load
 }
 
 export interface DayPlan {
     day: number;
     date: string;
-    activities: {
-        morning?: Activity | null;
-        lunch?: Activity | null;
-        afternoon?: Activity | null;
-        dinner?: Activity | null;
-        evening?: Activity | null;
-    };
+    activities: Activity[]; // In visiting order. Older trips used fixed morning/lunch/... slots; normalized on load
+}
+
+export type ActivityAction = 'regenerate' | 'edit' | 'remove';
+
+export type AddActivitySource = 'manual' | 'suggest';
+
+export interface ActivityPosition {
+    dayIndex: number;
+    activityIndex: number;
 }
 
 interface ItineraryDisplayProps {
     days: DayPlan[];
-    onActivityUpdate?: (dayIndex: number, period: string, action: 'regenerate' | 'edit' | 'remove', data?: any) => void;
+    onActivityUpdate?: (dayIndex: number, activityIndex: number, action: ActivityAction) => void;
+    onAddActivity?: (dayIndex: number, source: AddActivitySource) => void;
+    onMoveActivity?: (from: ActivityPosition, to: ActivityPosition) => void;
+    lockedActivities?: Record<string, PresenceUser>; // Activity id -> co-planner currently editing it
+    feedback?: Record<string, ActivityFeedback>; // Activity id -> votes and comments
+    onOpenDiscussion?: (activity: Activity) => void;
 }
 
+// Look of each activity type
+export const ACTIVITY_TYPES: Record<ActivityType, { label: string, color: string, bgColor: string, icon: React.ReactNode }> = {
+    sight: { label: "Sight", color: "text-emerald-600", bgColor: "bg-emerald-50", icon: <MapPin className="w-5 h-5 text-emerald-500" /> },
+    meal: { label: "Meal", color: "text-orange-600", bgColor: "bg-orange-50", icon: <Utensils className="w-5 h-5 text-orange-500" /> },
+    transit: { label: "Transit", color: "text-blue-600", bgColor: "bg-blue-50", icon: <Car className="w-5 h-5 text-blue-500" /> },
+    rest: { label: "Rest", color: "text-indigo-600", bgColor: "bg-indigo-50", icon: <Moon className="w-5 h-5 text-indigo-500" /> },
+    custom: { label: "Custom", color: "text-amber-600", bgColor: "bg-amber-50", icon: <Star className="w-5 h-5 text-amber-500" /> },
+};
+
 // 2. Component
-export function ItineraryDisplay({ days, onActivityUpdate }: ItineraryDisplayProps) {
+export function ItineraryDisplay({ days, onActivityUpdate, onAddActivity, onMoveActivity, lockedActivities = {}, feedback = {}, onOpenDiscussion }: ItineraryDisplayProps) {
+    // Drag and drop state; dropTarget.activityIndex is the gap the activity would land in (before that index)
+    const [dragSource, setDragSource] = useState<ActivityPosition | null>(null);
+    const [dropTarget, setDropTarget] = useState<ActivityPosition | null>(null);
+
     if (!days || days.length === 0) return null;
 
+    const endDrag = () => {
+        setDragSource(null);
+        setDropTarget(null);
+    };
+
+    const handleDrop = (target: ActivityPosition) => {
+        if (dragSource && onMoveActivity) {
+            // Removing the activity first shifts later gaps in the same day up by one
+            const sameDayShift = dragSource.dayIndex === target.dayIndex && dragSource.activityIndex < target.activityIndex ? 1 : 0;
+            onMoveActivity(dragSource, { dayIndex: target.dayIndex, activityIndex: target.activityIndex - sameDayShift });
+        }
+        endDrag();
+    };
+
+    // Keyboard / menu equivalent of a drop: place the activity in another day by its time
+    const moveToDay = (from: ActivityPosition, dayIndex: number) => {
+        const activity = days[from.dayIndex].activities[from.activityIndex];
+        onMoveActivity?.(from, { dayIndex, activityIndex: insertionIndex(days[dayIndex].activities, activity.time) });
+    };
+
     return (
         <div className="space-y-12 w-full">
             {/* Section Header */}
@@ -40,7 +92,7 @@ export function ItineraryDisplay({ days, onActivityUpdate }: ItineraryDisplayPro
                 <span className="text-sm font-medium text-emerald-600 bg-emerald-100/50 px-3 py-1 rounded-full">{days.length} Days</span>
             </div>
 
-            {days.map((day, index) => (
+            {days.map((day, dayIndex) => (
                 <div key={day.day} className="relative pl-0 md:pl-8 border-l-0 md:border-l-4 border-emerald-100 space-y-8">
                     {/* Day Marker */}
                     <div className="hidden md:flex absolute -left-[22px] top-0 h-10 w-10 bg-emerald-500 rounded-full items-center justify-center text-white font-bold shadow-lg shadow-emerald-500/30 z-10 border-4 border-emerald-50">
@@ -59,62 +111,67 @@ export function ItineraryDisplay({ days, onActivityUpdate }: ItineraryDisplayPro
                                     <span className="text-emerald-100 font-medium text-lg opacity-90">{day.date}</span>
                                 </div>
                                 <span className="text-sm font-medium text-emerald-100 bg-white/20 px-4 py-1.5 rounded-full backdrop-blur-md border border-white/10 w-fit">
-                                    Full Day Plan
+                                    {day.activities.length} {day.activities.length === 1 ? "Stop" : "Stops"}
                                 </span>
                             </CardTitle>
                         </CardHeader>
                         <CardContent className="p-0">
-                            <div className="divide-y divide-emerald-50">
-                                {/* Morning */}
-                                <ActivityItem
-                                    period="Morning"
-                                    activity={day.activities.morning}
-                                    color="text-amber-600"
-                                    bgColor="bg-amber-50"
-                                    icon={<Sun className="w-5 h-5 text-amber-500" />}
-                                    onAction={onActivityUpdate ? (action) => onActivityUpdate(index, 'morning', action) : undefined}
-                                />
-
-                                {/* Lunch */}
-                                <ActivityItem
-                                    period="Lunch"
-                                    activity={day.activities.lunch}
-                                    color="text-orange-600"
-                                    bgColor="bg-orange-50"
-                                    icon={<Utensils className="w-5 h-5 text-orange-500" />}
-                                    onAction={onActivityUpdate ? (action) => onActivityUpdate(index, 'lunch', action) : undefined}
-                                />
-
-                                {/* Afternoon */}
-                                <ActivityItem
-                                    period="Afternoon"
-                                    activity={day.activities.afternoon}
-                                    color="text-emerald-600"
-                                    bgColor="bg-emerald-50"
-                                    icon={<MapPin className="w-5 h-5 text-emerald-500" />}
-                                    onAction={onActivityUpdate ? (action) => onActivityUpdate(index, 'afternoon', action) : undefined}
-                                />
-
-                                {/* Dinner */}
-                                <ActivityItem
-                                    period="Dinner"
-                                    activity={day.activities.dinner}
-                                    color="text-orange-700"
-                                    bgColor="bg-orange-50"
-                                    icon={<Utensils className="w-5 h-5 text-orange-600" />}
-                                    onAction={onActivityUpdate ? (action) => onActivityUpdate(index, 'dinner', action) : undefined}
-                                />
-
-                                {/* Evening */}
-                                <ActivityItem
-                                    period="Evening"
-                                    activity={day.activities.evening}
-                                    color="text-indigo-600"
-                                    bgColor="bg-indigo-50"
-                                    icon={<Moon className="w-5 h-5 text-indigo-500" />}
-                                    onAction={onActivityUpdate ? (action) => onActivityUpdate(index, 'evening', action) : undefined}
-                                />
+                            <div
+                                className={`divide-y divide-emerald-50 ${dragSource ? "min-h-16" : ""}`}
+                                onDragOver={onMoveActivity ? (e) => {
+                                    if (!dragSource) return;
+                                    e.preventDefault();
+                                    // Over the list but not over an item: drop at the end of the day
+                                    if (e.target === e.currentTarget) setDropTarget({ dayIndex, activityIndex: day.activities.length });
+                                } : undefined}
+                                onDrop={onMoveActivity ? (e) => {
+                                    e.preventDefault();
+                                    handleDrop(dropTarget?.dayIndex === dayIndex ? dropTarget : { dayIndex, activityIndex: day.activities.length });
+                                } : undefined}
+                            >
+                                {day.activities.map((activity, activityIndex) => {
+                                    // Someone else has this one open; leave it alone until they're done
+                                    const lockedBy = lockedActivities[activity.id];
+                                    return (
+                                        <ActivityItem
+                                            key={activity.id}
+                                            activity={activity}
+                                            lockedBy={lockedBy}
+                                            feedback={feedback[activity.id]}
+                                            onDiscuss={onOpenDiscussion ? () => onOpenDiscussion(activity) : undefined}
+                                            onAction={onActivityUpdate && !lockedBy ? (action) => onActivityUpdate(dayIndex, activityIndex, action) : undefined}
+                                            isDragging={dragSource?.dayIndex === dayIndex && dragSource.activityIndex === activityIndex}
+                                            dropIndicator={dropTarget?.dayIndex !== dayIndex ? null
+                                                : dropTarget.activityIndex === activityIndex ? "before"
+                                                    : dropTarget.activityIndex === activityIndex + 1 && activityIndex === day.activities.length - 1 ? "after"
+                                                        : null}
+                                            move={onMoveActivity && !lockedBy ? {
+                                                onDragStart: () => setDragSource({ dayIndex, activityIndex }),
+                                                onDragOver: (half) => setDropTarget({ dayIndex, activityIndex: half === "top" ? activityIndex : activityIndex + 1 }),
+                                                onDragEnd: endDrag,
+                                                onMoveUp: activityIndex > 0 ? () => onMoveActivity({ dayIndex, activityIndex }, { dayIndex, activityIndex: activityIndex - 1 }) : undefined,
+                                                onMoveDown: activityIndex < day.activities.length - 1 ? () => onMoveActivity({ dayIndex, activityIndex }, { dayIndex, activityIndex: activityIndex + 1 }) : undefined,
+                                                days: days.map((other, otherIndex) => ({
+                                                    label: `Day ${other.day}`,
+                                                    onSelect: otherIndex !== dayIndex ? () => moveToDay({ dayIndex, activityIndex }, otherIndex) : undefined,
+                                                })),
+                                            } : undefined}
+                                        />
+                                    );
+                                })}
+
+                                {day.activities.length === 0 && (
+                                    <p className={`p-6 text-sm italic pointer-events-none ${dropTarget?.dayIndex === dayIndex ? "text-emerald-600 bg-emerald-50" : "text-emerald-800/50"}`}>
+                                        {dragSource ? "Drop here to move it to this day." : "Nothing planned for this day yet."}
+                                    </p>
+                                )}
                             </div>
+
+                            {onAddActivity && (
+                                <div className="p-4 border-t border-emerald-50">
+                                    <AddActivityMenu onAdd={(source) => onAddActivity(dayIndex, source)} />
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
                 </div>
@@ -123,26 +180,67 @@ export function ItineraryDisplay({ days, onActivityUpdate }: ItineraryDisplayPro
     );
 }
 
+interface ActivityMoveControls {
+    onDragStart: () => void;
+    onDragOver: (half: "top" | "bottom") => void;
+    onDragEnd: () => void;
+    onMoveUp?: () => void; // Undefined at the edges of the day
+    onMoveDown?: () => void;
+    days: { label: string, onSelect?: () => void }[]; // onSelect is undefined for the current day
+}
+
 // Helper Component for consistent styling
 function ActivityItem({
-    period,
     activity,
-    color,
-    bgColor,
-    icon,
-    onAction
+    onAction,
+    move,
+    isDragging = false,
+    dropIndicator = null,
+    lockedBy,
+    feedback,
+    onDiscuss
 }: {
-    period: string,
-    activity: Activity | null | undefined,
-    color: string,
-    bgColor: string,
-    icon: React.ReactNode,
-    onAction?: (action: 'regenerate' | 'edit' | 'remove') => void
+    activity: Activity,
+    onAction?: (action: ActivityAction) => void,
+    move?: ActivityMoveControls,
+    isDragging?: boolean,
+    dropIndicator?: "before" | "after" | null,
+    lockedBy?: PresenceUser,
+    feedback?: ActivityFeedback,
+    onDiscuss?: () => void
 }) {
-    if (!activity) return null;
+    const { label, color, bgColor, icon } = ACTIVITY_TYPES[activity.type] || ACTIVITY_TYPES.custom;
 
     return (
-        <div className="group relative p-6 hover:bg-emerald-50/30 transition-colors flex gap-4 md:gap-6 items-start">
+        <div
+            className={`group relative p-6 hover:bg-emerald-50/30 transition-colors flex gap-4 md:gap-6 items-start ${isDragging ? "opacity-40" : ""} ${move ? "cursor-grab active:cursor-grabbing" : ""}`}
+            draggable={!!move}
+            onDragStart={move ? (e) => {
+                e.dataTransfer.effectAllowed = "move";
+                e.dataTransfer.setData("text/plain", activity.id); // Firefox won't start a drag without data
+                move.onDragStart();
+            } : undefined}
+            onDragOver={move ? (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                const rect = e.currentTarget.getBoundingClientRect();
+                move.onDragOver(e.clientY < rect.top + rect.height / 2 ? "top" : "bottom");
+            } : undefined}
+            onDragEnd={move?.onDragEnd}
+        >
+            {/* Drop Indicator */}
+            {dropIndicator && (
+                <div className={`absolute left-4 right-4 h-1 rounded-full bg-orange-400 z-10 ${dropIndicator === "before" ? "-top-0.5" : "-bottom-0.5"}`} />
+            )}
+
+            {lockedBy && (
+                <div className="absolute inset-y-0 left-0 w-1" style={{ backgroundColor: lockedBy.color }} />
+            )}
+
+            {move && (
+                <GripVertical className="hidden md:block absolute left-1 top-1/2 -translate-y-1/2 w-4 h-4 text-emerald-900/20 group-hover:text-emerald-900/50" aria-hidden />
+            )}
+
             <div className={`shrink-0 w-12 h-12 rounded-2xl ${bgColor} flex items-center justify-center shadow-sm`}>
                 {icon}
             </div>
@@ -150,14 +248,20 @@ function ActivityItem({
                 <div className="flex flex-wrap items-center justify-between gap-2">
                     <div className="flex items-center gap-2">
                         <Badge variant="outline" className={`${color} border-${color.split('-')[1]}-200 bg-white font-bold px-2 py-0.5 rounded-md`}>
-                            {period}
+                            {label}
                         </Badge>
                         <span className="text-sm font-medium text-emerald-900/60 font-mono">
                             {activity.time}
                         </span>
+                        {lockedBy && (
+                            <span className="flex items-center gap-1 text-xs font-bold px-2 py-0.5 rounded-lg text-white" style={{ backgroundColor: lockedBy.color }}>
+                                <Lock className="w-3 h-3" />
+                                {lockedBy.email.split("@")[0]} is editing
+                            </span>
+                        )}
                     </div>
                     <span className="text-xs font-bold text-emerald-700 bg-emerald-100 px-2 py-1 rounded-lg">
-                        {activity.cost}
+                        {formatCost(activity.cost)}
                     </span>
                 </div>
 
@@ -165,14 +269,36 @@ function ActivityItem({
                 <p className="text-emerald-800/70 leading-relaxed text-sm">
                     {activity.description}
                 </p>
+
+                {onDiscuss && (
+                    <button
+                        type="button"
+                        onClick={onDiscuss}
+                        className="flex items-center gap-3 text-xs font-bold text-emerald-800/60 hover:text-emerald-700 bg-emerald-50/60 hover:bg-emerald-100 px-3 py-1.5 rounded-full transition-colors"
+                        title="Votes and comments"
+                    >
+                        {feedback && (feedback.up > 0 || feedback.down > 0 || feedback.comments > 0) ? (
+                            <>
+                                <span className={`flex items-center gap-1 ${feedback.myVote === 1 ? "text-emerald-600" : ""}`}><ThumbsUp className="w-3 h-3" /> {feedback.up}</span>
+                                <span className={`flex items-center gap-1 ${feedback.myVote === -1 ? "text-red-500" : ""}`}><ThumbsDown className="w-3 h-3" /> {feedback.down}</span>
+                                <span className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> {feedback.comments}</span>
+                            </>
+                        ) : (
+                            <span className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> Discuss</span>
+                        )}
+                    </button>
+                )}
             </div>
 
             {onAction && (
-                <div className="absolute top-4 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <div className="absolute top-4 right-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
                     <ActivityActionMenu
                         onRegenerate={() => onAction('regenerate')}
                         onEdit={() => onAction('edit')}
                         onRemove={() => onAction('remove')}
+                        onMoveUp={move?.onMoveUp}
+                        onMoveDown={move?.onMoveDown}
+                        moveTargets={move?.days}
                     />
                 </div>
             )}
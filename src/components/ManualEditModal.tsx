@@ -13,13 +13,19 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Activity } from "@/components/ItineraryDisplay";
-import { Edit3 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity, ActivityType, ACTIVITY_TYPES } from "@/components/ItineraryDisplay";
+import { Edit3, Plus } from "lucide-react";
+import { DEFAULT_CURRENCY, getCurrency } from "@/lib/currency";
+import { ActivityCost, FREE_COST } from "@/lib/cost";
 
 interface ManualEditModalProps {
     isOpen: boolean;
     onClose: () => void;
     activity: Activity | null;
+    currency?: string;
+    mode?: "edit" | "add";
     onSave: (updatedActivity: Activity) => void;
 }
 
@@ -27,13 +33,17 @@ export function ManualEditModal({
     isOpen,
     onClose,
     activity,
+    currency = DEFAULT_CURRENCY,
+    mode = "edit",
     onSave,
 }: ManualEditModalProps) {
     const [formData, setFormData] = useState<Activity>({
+        id: "",
+        type: "custom",
         name: "",
         description: "",
         time: "",
-        cost: "",
+        cost: FREE_COST(currency),
     });
 
     useEffect(() => {
@@ -47,6 +57,10 @@ export function ManualEditModal({
         setFormData((prev) => ({ ...prev, [name]: value }));
     };
 
+    const handleCostChange = (changes: Partial<ActivityCost>) => {
+        setFormData((prev) => ({ ...prev, cost: { ...prev.cost, currency, ...changes } }));
+    };
+
     const handleSubmit = () => {
         onSave(formData);
         onClose();
@@ -60,12 +74,12 @@ export function ManualEditModal({
                 <DialogHeader className="bg-orange-50/50 p-6 pb-2">
                     <div className="flex items-center gap-2 mb-2">
                         <div className="p-2 bg-orange-100 rounded-full text-orange-600">
-                            <Edit3 className="w-5 h-5" />
+                            {mode === "add" ? <Plus className="w-5 h-5" /> : <Edit3 className="w-5 h-5" />}
                         </div>
                     </div>
-                    <DialogTitle className="text-2xl font-black text-emerald-950">Edit Activity</DialogTitle>
+                    <DialogTitle className="text-2xl font-black text-emerald-950">{mode === "add" ? "Add Activity" : "Edit Activity"}</DialogTitle>
                     <DialogDescription className="text-emerald-800/70">
-                        Manually update the details for this slot.
+                        {mode === "add" ? "Fill in the details; it will be placed in the day by its time." : "Manually update the details for this activity."}
                     </DialogDescription>
                 </DialogHeader>
 
@@ -81,27 +95,73 @@ export function ManualEditModal({
                         />
                     </div>
 
-                    <div className="space-y-2">
-                        <Label htmlFor="time" className="text-emerald-900">Time</Label>
-                        <Input
-                            id="time"
-                            name="time"
-                            value={formData.time}
-                            onChange={handleChange}
-                            className="bg-emerald-50/50 border-emerald-100 focus:ring-orange-500"
-                        />
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="time" className="text-emerald-900">Time</Label>
+                            <Input
+                                id="time"
+                                name="time"
+                                value={formData.time}
+                                onChange={handleChange}
+                                placeholder="e.g. 03:00 PM"
+                                className="bg-emerald-50/50 border-emerald-100 focus:ring-orange-500"
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label className="text-emerald-900">Type</Label>
+                            <Select value={formData.type} onValueChange={(value) => setFormData((prev) => ({ ...prev, type: value as ActivityType }))}>
+                                <SelectTrigger className="w-full bg-emerald-50/50 border-emerald-100">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-white">
+                                    {(Object.keys(ACTIVITY_TYPES) as ActivityType[]).map((type) => (
+                                        <SelectItem key={type} value={type}>{ACTIVITY_TYPES[type].label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
                     </div>
 
-                    <div className="space-y-2">
-                        <Label htmlFor="cost" className="text-emerald-900">Cost (IDR)</Label>
-                        <Input
-                            id="cost"
-                            name="cost"
-                            value={formData.cost}
-                            onChange={handleChange}
-                            placeholder="e.g. Rp 50.000"
-                            className="bg-emerald-50/50 border-emerald-100 focus:ring-orange-500"
-                        />
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="cost" className="text-emerald-900">Cost ({currency})</Label>
+                            <div className="relative">
+                                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-emerald-900/40 font-medium">{getCurrency(currency).symbol}</span>
+                                <Input
+                                    id="cost"
+                                    type="number"
+                                    min={0}
+                                    step="any"
+                                    value={formData.cost.amount}
+                                    onChange={(e) => handleCostChange({ amount: parseFloat(e.target.value) || 0 })}
+                                    placeholder="0 for free"
+                                    className="bg-emerald-50/50 border-emerald-100 focus:ring-orange-500 pl-10"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label className="text-emerald-900">Paid</Label>
+                            <Select value={formData.cost.per} onValueChange={(value) => handleCostChange({ per: value as ActivityCost["per"] })}>
+                                <SelectTrigger className="w-full bg-emerald-50/50 border-emerald-100">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-white">
+                                    <SelectItem value="person">Per person</SelectItem>
+                                    <SelectItem value="group">For the group</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="col-span-2 flex items-center gap-2">
+                            <Checkbox
+                                id="estimated"
+                                checked={formData.cost.estimated}
+                                onCheckedChange={(checked) => handleCostChange({ estimated: checked === true })}
+                            />
+                            <Label htmlFor="estimated" className="text-sm text-emerald-800/70 font-normal">This is an estimate</Label>
+                        </div>
                     </div>
 
                     <div className="space-y-2">
@@ -118,8 +178,8 @@ export function ManualEditModal({
 
                 <DialogFooter className="p-6 pt-0">
                     <Button variant="ghost" onClick={onClose} className="hover:bg-emerald-50 text-emerald-700">Cancel</Button>
-                    <Button onClick={handleSubmit} className="bg-orange-500 hover:bg-orange-600 text-white font-bold rounded-full px-6">
-                        Save Changes
+                    <Button onClick={handleSubmit} disabled={!formData.name.trim()} className="bg-orange-500 hover:bg-orange-600 text-white font-bold rounded-full px-6">
+                        {mode === "add" ? "Add Activity" : "Save Changes"}
                     </Button>
                 </DialogFooter>
             </DialogContent>
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { WifiOff } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { PendingEdit, clearOfflineData, discardPendingEdit, overwriteWithPendingEdit, syncPendingEdits } from "@/lib/offline";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+
+// A co-planner saved the trip while this user was offline: let them pick which version to keep
+const askAboutConflict = (edit: PendingEdit) => {
+    const destination = edit.changes.trip_data?.destination;
+    toast.warning(`${destination ? `Your trip to ${destination}` : "A trip you edited offline"} was changed by someone else while you were offline.`, {
+        id: `offline-conflict-${edit.itineraryId}`,
+        description: "Keep your offline changes (replacing theirs), or discard yours and use the saved version?",
+        duration: Infinity,
+        action: {
+            label: "Keep mine",
+            onClick: () => overwriteWithPendingEdit(edit)
+                .then(() => toast.success("Your offline changes were saved."))
+                .catch((error) => {
+                    console.error("Error saving offline edit:", error);
+                    toast.error("Failed to save your offline changes. " + error.message);
+                }),
+        },
+        cancel: {
+            label: "Use theirs",
+            onClick: () => discardPendingEdit(edit).catch((error) => console.error("Error discarding offline edit:", error)),
+        },
+    });
+};
+
+const syncOfflineEdits = () => syncPendingEdits()
+    .then(({ synced, conflicts }) => {
+        if (synced.length > 0) toast.success(`Synced your offline changes to ${synced.length} ${synced.length === 1 ? "trip" : "trips"}.`);
+        conflicts.forEach(askAboutConflict);
+    })
+    .catch((error) => console.error("Error syncing offline edits:", error));
+
+// Mounted once in the root layout: registers the service worker, writes back edits queued offline
+// when the connection returns, and shows a banner while offline.
+export function OfflineSupport() {
+    const isOnline = useOnlineStatus();
+
+    useEffect(() => {
+        // Caching would get in the way of hot reloading in development
+        if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+        navigator.serviceWorker.register("/sw.js").catch((error) => console.error("Service worker registration failed:", error));
+    }, []);
+
+    useEffect(() => {
+        if (!isOnline) return;
+        syncOfflineEdits();
+    }, [isOnline]);
+
+    useEffect(() => {
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+            if (event === "SIGNED_OUT") clearOfflineData().catch((error) => console.error("Error clearing offline data:", error));
+            // Edits left from an earlier session of this user (queued edits outlive an expired session)
+            if (event === "SIGNED_IN" && navigator.onLine) syncOfflineEdits();
+        });
+        return () => subscription.unsubscribe();
+    }, []);
+
+    if (isOnline) return null;
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 rounded-full bg-zinc-900/90 text-white text-sm font-medium px-4 py-2 shadow-xl backdrop-blur">
+            <WifiOff className="w-4 h-4 text-amber-400" />
+            You&apos;re offline. Showing saved copies; edits will sync when you reconnect.
+        </div>
+    );
+}
@@ -0,0 +1,37 @@
+import { PresenceUser } from "@/lib/realtime";
+
+const MAX_VISIBLE = 4;
+
+const initials = (email: string) => email.split("@")[0].slice(0, 2).toUpperCase();
+
+interface PresenceAvatarsProps {
+    people: PresenceUser[]; // Everyone else currently viewing the trip
+}
+
+export function PresenceAvatars({ people }: PresenceAvatarsProps) {
+    if (people.length === 0) return null;
+
+    const visible = people.slice(0, MAX_VISIBLE);
+    const hidden = people.length - visible.length;
+
+    return (
+        <div className="flex items-center -space-x-2" aria-label={`${people.length} other ${people.length === 1 ? "person" : "people"} viewing`}>
+            {visible.map((person) => (
+                <span
+                    key={person.userId}
+                    title={`${person.email}${person.editingActivityId ? " (editing)" : " (viewing)"}`}
+                    className="relative w-8 h-8 rounded-full ring-2 ring-white flex items-center justify-center text-[11px] font-bold text-white shadow-sm"
+                    style={{ backgroundColor: person.color }}
+                >
+                    {initials(person.email)}
+                    <span className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full bg-emerald-400 ring-2 ring-white" />
+                </span>
+            ))}
+            {hidden > 0 && (
+                <span className="w-8 h-8 rounded-full ring-2 ring-white bg-emerald-100 text-emerald-700 flex items-center justify-center text-[11px] font-bold">
+                    +{hidden}
+                </span>
+            )}
+        </div>
+    );
+}
@@ -11,6 +11,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Sparkles, Check } from "lucide-react";
 import { Activity } from "@/components/ItineraryDisplay";
+import { formatCost } from "@/lib/cost";
 
 interface RegenerateModalProps {
     isOpen: boolean;
@@ -18,6 +19,8 @@ interface RegenerateModalProps {
     isLoading: boolean;
     alternatives: Activity[];
     onSelect: (activity: Activity) => void;
+    title?: string;
+    description?: string;
 }
 
 export function RegenerateModal({
@@ -26,6 +29,8 @@ export function RegenerateModal({
     isLoading,
     alternatives,
     onSelect,
+    title = "Choose an Alternative",
+    description = "Select one of these curated options to replace your current activity.",
 }: RegenerateModalProps) {
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
@@ -37,9 +42,9 @@ export function RegenerateModal({
                         </div>
                         <Badge variant="outline" className="bg-white border-orange-200 text-orange-700">AI Suggestions</Badge>
                     </div>
-                    <DialogTitle className="text-2xl font-black text-emerald-950">Choose an Alternative</DialogTitle>
+                    <DialogTitle className="text-2xl font-black text-emerald-950">{title}</DialogTitle>
                     <DialogDescription className="text-emerald-800/70">
-                        Select one of these curated options to replace your current activity.
+                        {description}
                     </DialogDescription>
                 </DialogHeader>
 
@@ -64,9 +69,10 @@ export function RegenerateModal({
                                         <div className="flex-1">
                                             <div className="flex justify-between items-start">
                                                 <h4 className="font-bold text-lg text-emerald-950">{alt.name}</h4>
-                                                <Badge variant="secondary" className="bg-emerald-50 text-emerald-700 group-hover:bg-emerald-100">{alt.cost}</Badge>
+                                                <Badge variant="secondary" className="bg-emerald-50 text-emerald-700 group-hover:bg-emerald-100">{formatCost(alt.cost)}</Badge>
                                             </div>
                                             <p className="text-sm text-emerald-800/70 mt-1 leading-relaxed">{alt.description}</p>
+                                            {alt.time && <p className="text-xs font-mono text-emerald-900/50 mt-2">{alt.time}</p>}
                                         </div>
                                         <div className="opacity-0 group-hover:opacity-100 self-center transition-opacity text-emerald-600">
                                             <Check className="w-6 h-6" />
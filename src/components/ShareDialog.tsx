@@ -0,0 +1,205 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { CalendarPlus, Copy, Eye, Link2, Loader2, Share2, Trash2 } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/lib/supabaseClient";
+import { SHARE_EXPIRY_OPTIONS, ShareRow, createShareToken, shareExpiry, shareStatus, shareUrl } from "@/lib/shares";
+import { calendarFeedUrl } from "@/lib/calendar";
+
+interface ShareDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    itineraryId: string;
+}
+
+const STATUS_STYLES = {
+    active: "bg-emerald-100 text-emerald-700",
+    expired: "bg-amber-100 text-amber-700",
+    revoked: "bg-red-100 text-red-700",
+};
+
+export function ShareDialog({ isOpen, onClose, itineraryId }: ShareDialogProps) {
+    const [shares, setShares] = useState<ShareRow[]>([]);
+    const [isLoading, setIsLoading] = useState(true); // Until the first load; later refreshes update in place
+    const [isCreating, setIsCreating] = useState(false);
+    const [expiryDays, setExpiryDays] = useState("never");
+
+    const loadShares = useCallback(async (): Promise<ShareRow[] | null> => {
+        const { data, error } = await supabase
+            .from('itinerary_shares')
+            .select('*')
+            .eq('itinerary_id', itineraryId)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error("Error fetching share links:", error);
+            toast.error("Could not load share links.");
+            return null;
+        }
+        return data || [];
+    }, [itineraryId]);
+
+    const fetchShares = async () => {
+        const rows = await loadShares();
+        if (rows) setShares(rows);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadShares().then((rows) => {
+            if (rows) setShares(rows);
+            setIsLoading(false);
+        });
+    }, [isOpen, loadShares]);
+
+    const copyLink = (token: string) => {
+        navigator.clipboard.writeText(shareUrl(token))
+            .then(() => toast.success("Link copied to clipboard!"))
+            .catch(() => toast.error("Failed to copy link."));
+    };
+
+    // Same token, as a feed calendar apps can subscribe to; it follows edits until the link is revoked or expires
+    const copyCalendarFeed = (token: string) => {
+        navigator.clipboard.writeText(calendarFeedUrl(token))
+            .then(() => toast.success("Calendar feed copied! Add it in your calendar app as a subscription by URL."))
+            .catch(() => toast.error("Failed to copy link."));
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        const { data: { user } } = await supabase.auth.getUser();
+        const token = createShareToken();
+
+        const { error } = await supabase.from('itinerary_shares').insert({
+            itinerary_id: itineraryId,
+            token,
+            created_by: user?.id,
+            expires_at: shareExpiry(expiryDays === "never" ? null : Number(expiryDays)),
+        });
+
+        if (error) {
+            console.error("Error creating share link:", error);
+            toast.error("Failed to create link. " + error.message);
+        } else {
+            copyLink(token);
+            await fetchShares();
+        }
+        setIsCreating(false);
+    };
+
+    const handleRevoke = async (share: ShareRow) => {
+        const { error } = await supabase
+            .from('itinerary_shares')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('id', share.id);
+
+        if (error) {
+            console.error("Error revoking share link:", error);
+            toast.error("Failed to revoke link.");
+            return;
+        }
+        toast.success("Link revoked. It no longer opens the trip.");
+        fetchShares();
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onClose}>
+            <DialogContent className="max-w-lg bg-white dark:bg-zinc-900 border-none rounded-3xl overflow-hidden">
+                <DialogHeader className="bg-emerald-50/50 p-6 pb-2">
+                    <div className="flex items-center gap-2 mb-2">
+                        <div className="p-2 bg-emerald-100 rounded-full text-emerald-600">
+                            <Share2 className="w-5 h-5" />
+                        </div>
+                    </div>
+                    <DialogTitle className="text-2xl font-black text-emerald-950">Share Trip</DialogTitle>
+                    <DialogDescription className="text-emerald-800/70">
+                        Anyone with a link can view this trip without signing in. They can&apos;t edit it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="p-6 space-y-6">
+                    {/* New Link */}
+                    <div className="flex gap-3">
+                        <Select value={expiryDays} onValueChange={setExpiryDays}>
+                            <SelectTrigger className="flex-1 bg-emerald-50/50 border-emerald-100">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-white">
+                                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                                    <SelectItem key={option.label} value={option.days === null ? "never" : String(option.days)}>
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button onClick={handleCreate} disabled={isCreating} className="gap-2 rounded-full px-5 bg-orange-500 hover:bg-orange-600 text-white font-bold">
+                            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                            Create Link
+                        </Button>
+                    </div>
+
+                    {/* Existing Links */}
+                    <div className="space-y-3 max-h-72 overflow-y-auto">
+                        {isLoading && shares.length === 0 && (
+                            <p className="text-sm text-emerald-800/50 animate-pulse">Loading links...</p>
+                        )}
+                        {!isLoading && shares.length === 0 && (
+                            <p className="text-sm text-emerald-800/50 italic">No links yet. Create one to share this trip.</p>
+                        )}
+
+                        {shares.map((share) => {
+                            const status = shareStatus(share);
+                            return (
+                                <div key={share.id} className="rounded-2xl border border-emerald-100 p-4 space-y-2">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <code className="text-xs text-emerald-900/70 truncate">/share/{share.token.slice(0, 12)}…</code>
+                                        <span className={`text-[10px] font-extrabold uppercase tracking-widest px-2 py-0.5 rounded-lg ${STATUS_STYLES[status]}`}>
+                                            {status}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2 text-xs text-emerald-800/60">
+                                        <span className="flex items-center gap-3">
+                                            <span className="flex items-center gap-1"><Eye className="w-3 h-3" /> {share.view_count} views</span>
+                                            <span>
+                                                {share.expires_at
+                                                    ? `${status === "expired" ? "Expired" : "Expires"} ${format(parseISO(share.expires_at), "MMM d, HH:mm")}`
+                                                    : "No expiry"}
+                                            </span>
+                                        </span>
+                                        {status === "active" && (
+                                            <span className="flex gap-1">
+                                                <Button size="sm" variant="ghost" onClick={() => copyLink(share.token)} className="h-7 px-2 text-emerald-700 hover:bg-emerald-50">
+                                                    <Copy className="w-3 h-3" />
+                                                    <span className="sr-only">Copy link</span>
+                                                </Button>
+                                                <Button size="sm" variant="ghost" onClick={() => copyCalendarFeed(share.token)} className="h-7 px-2 text-emerald-700 hover:bg-emerald-50" title="Copy calendar feed URL">
+                                                    <CalendarPlus className="w-3 h-3" />
+                                                    <span className="sr-only">Copy calendar feed</span>
+                                                </Button>
+                                                <Button size="sm" variant="ghost" onClick={() => handleRevoke(share)} className="h-7 px-2 text-red-600 hover:bg-red-50">
+                                                    <Trash2 className="w-3 h-3" />
+                                                    Revoke
+                                                </Button>
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
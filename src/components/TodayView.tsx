@@ -0,0 +1,149 @@
+"use client";
+
+import Link from "next/link";
+import { format } from "date-fns";
+import { ArrowLeft, Check, CheckCircle2, Clock, MapPin, RotateCcw, SkipForward, Sunrise } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ACTIVITY_TYPES, DayPlan } from "@/components/ItineraryDisplay";
+import type { TripData } from "@/components/TripView";
+import { formatCost } from "@/lib/cost";
+import { ActivityStatus, minutesSinceMidnight, nextActivityIndex, startsIn } from "@/lib/today";
+
+interface TodayViewProps {
+    tripData: TripData;
+    day: DayPlan;
+    date: Date | null;
+    now: Date;
+    isToday: boolean; // False when the traveler picked a day themselves (undated trips, or a look ahead)
+    statuses: Record<string, ActivityStatus>;
+    onStatusChange: (activityId: string, status: ActivityStatus | null) => void;
+    onPickAnotherDay: () => void;
+    planHref: string;
+}
+
+// On-trip view of a single day: big touch targets, what's next, and a checklist instead of editing tools
+export function TodayView({ tripData, day, date, now, isToday, statuses, onStatusChange, onPickAnotherDay, planHref }: TodayViewProps) {
+    const nowMinutes = minutesSinceMidnight(now);
+    // Only highlight by the clock on the actual day; a picked day just starts from its first open item
+    const nextIndex = nextActivityIndex(day.activities, statuses, isToday ? nowMinutes : 0);
+    const completed = day.activities.filter((activity) => statuses[activity.id]).length;
+    const progress = day.activities.length > 0 ? (completed / day.activities.length) * 100 : 100;
+
+    return (
+        <main className="min-h-screen bg-emerald-50/50 pb-16">
+            <header className="sticky top-0 z-40 bg-white/90 backdrop-blur-md border-b border-emerald-100 px-4 py-3">
+                <div className="max-w-2xl mx-auto flex items-center justify-between gap-2">
+                    <Button variant="ghost" size="sm" asChild className="gap-1 text-emerald-700 hover:bg-emerald-50 -ml-2">
+                        <Link href={planHref}>
+                            <ArrowLeft className="w-4 h-4" /> Full plan
+                        </Link>
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={onPickAnotherDay} className="text-emerald-700 hover:bg-emerald-50">
+                        Other days
+                    </Button>
+                </div>
+            </header>
+
+            <div className="max-w-2xl mx-auto px-4 pt-6 space-y-6">
+                <div>
+                    <p className="text-sm font-bold uppercase tracking-wider text-orange-500">
+                        {isToday ? "Today" : `Day ${day.day}`} · {tripData.destination}
+                    </p>
+                    <h1 className="text-3xl font-black text-emerald-950 tracking-tight font-serif mt-1">
+                        {date ? format(date, "EEEE, MMMM d") : day.date || `Day ${day.day}`}
+                    </h1>
+                    <div className="mt-4 flex items-center gap-3">
+                        <div className="flex-1 h-2 rounded-full bg-emerald-100 overflow-hidden">
+                            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress}%` }} />
+                        </div>
+                        <span className="text-sm font-medium text-emerald-700 whitespace-nowrap">
+                            {completed} of {day.activities.length} done
+                        </span>
+                    </div>
+                </div>
+
+                {day.activities.length === 0 && (
+                    <div className="text-center py-16 text-emerald-600/80 font-medium">
+                        <Sunrise className="w-10 h-10 mx-auto mb-3 text-emerald-400" />
+                        Nothing planned today. Enjoy the free time!
+                    </div>
+                )}
+
+                {day.activities.length > 0 && nextIndex === -1 && (
+                    <div className="flex items-center gap-3 rounded-2xl bg-emerald-600 text-white p-4 font-medium">
+                        <CheckCircle2 className="w-6 h-6 shrink-0" />
+                        That&apos;s everything for today.
+                    </div>
+                )}
+
+                <ol className="space-y-3">
+                    {day.activities.map((activity, index) => {
+                        const status = statuses[activity.id];
+                        const isNext = index === nextIndex;
+                        const { label, color, bgColor, icon } = ACTIVITY_TYPES[activity.type] || ACTIVITY_TYPES.custom;
+                        const countdown = isNext && isToday ? startsIn(activity, nowMinutes) : null;
+
+                        return (
+                            <li
+                                key={activity.id}
+                                className={`rounded-2xl bg-white p-4 transition-all ${isNext ? "ring-2 ring-orange-400 shadow-xl shadow-orange-500/10" : "ring-1 ring-emerald-100"} ${status ? "opacity-60" : ""}`}
+                            >
+                                {isNext && (
+                                    <p className="text-xs font-bold uppercase tracking-wider text-orange-500 mb-2">
+                                        {countdown === "now" ? "Happening now" : `Up next${countdown ? ` · ${countdown}` : ""}`}
+                                    </p>
+                                )}
+                                <div className="flex gap-3 items-start">
+                                    <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 ${bgColor}`}>
+                                        {icon}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                                            <Clock className="w-3 h-3" /> {activity.time || "Anytime"}
+                                            <span className={`font-bold ${color}`}>{label}</span>
+                                        </div>
+                                        <h3 className={`font-bold text-emerald-950 text-lg leading-snug ${status === "skipped" ? "line-through" : ""}`}>
+                                            {activity.name}
+                                        </h3>
+                                        {isNext && activity.description && (
+                                            <p className="text-sm text-muted-foreground mt-1">{activity.description}</p>
+                                        )}
+                                        <div className="flex items-center gap-3 mt-1 text-sm">
+                                            <span className="text-emerald-700 font-medium">{formatCost(activity.cost)}</span>
+                                            <a
+                                                href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${activity.name}, ${tripData.destination}`)}`}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="flex items-center gap-1 text-emerald-600 hover:text-emerald-800 font-medium"
+                                            >
+                                                <MapPin className="w-3 h-3" /> Map
+                                            </a>
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="flex gap-2 mt-3">
+                                    {status ? (
+                                        <Button variant="ghost" size="sm" onClick={() => onStatusChange(activity.id, null)} className="gap-1 text-muted-foreground">
+                                            <RotateCcw className="w-4 h-4" />
+                                            {status === "done" ? "Done" : "Skipped"} · Undo
+                                        </Button>
+                                    ) : (
+                                        <>
+                                            <Button size="sm" onClick={() => onStatusChange(activity.id, "done")} className="flex-1 gap-1 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white font-bold h-10">
+                                                <Check className="w-4 h-4" /> Done
+                                            </Button>
+                                            <Button size="sm" variant="outline" onClick={() => onStatusChange(activity.id, "skipped")} className="flex-1 gap-1 rounded-xl border-emerald-200 text-emerald-700 hover:bg-emerald-50 font-bold h-10">
+                                                <SkipForward className="w-4 h-4" /> Skip
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+        </main>
+    );
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useForm } from "react-hook-form"
+import { useForm, useWatch } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
 import { Loader2, CalendarIcon } from "lucide-react"
@@ -21,26 +21,42 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { cn } from "@/lib/utils"
+import { BUDGET_MODE_LABELS, DEFAULT_BUDGET_MODE } from "@/lib/budgetEnforcement"
+import { CURRENCIES, DEFAULT_CURRENCY, budgetStep, convertOffline, formatMoney, getCurrency, minimumBudget } from "@/lib/currency"
 
 // 1. Define Zod Schema
 export const formSchema = z.object({
   destination: z.string().min(2, { message: "Destination must be at least 2 characters." }),
   startDate: z.date(),
   endDate: z.date(),
-  budget: z.coerce.number().min(500000, { message: "Minimum budget is 500k IDR" }),
+  budget: z.coerce.number().positive({ message: "Enter your total budget." }),
+  currency: z.string(),
   travelers: z.coerce.number().min(1).max(10),
   pace: z.enum(["Relaxed", "Moderate", "Packed"]),
+  budgetMode: z.enum(["strict", "advisory"]),
   interests: z.array(z.string()).refine((value) => value.length > 0, {
     message: "Select at least one interest.",
   }),
 }).refine((data) => data.endDate >= data.startDate, {
   message: "End date cannot be earlier than start date.",
   path: ["endDate"],
+}).superRefine((data, ctx) => {
+  // Minimum is 500k IDR, converted to whichever currency the traveler picked
+  const min = minimumBudget(data.currency);
+  if (data.budget < min) {
+    ctx.addIssue({ code: "custom", message: `Minimum budget is ${formatMoney(min, data.currency)}`, path: ["budget"] });
+  }
 });
 
 export type TripFormData = z.infer<typeof formSchema> & { days: number }; // Inject calculated days
 
+const BUDGET_MODE_HINTS = {
+  strict: "Pricier picks are swapped for cheaper ones until the plan fits.",
+  advisory: "The plan is kept as generated; we only flag overspending.",
+}
+
 const INTERESTS_LIST = [
   "Adventure", "Relaxation", "Culture", "Food", "History",
   "Art", "Nature", "Nightlife", "Shopping", "Photography"
@@ -58,12 +74,27 @@ export function TripInputForm({ onSubmit, isLoading }: TripInputFormProps) {
     defaultValues: {
       destination: "",
       budget: 5000000,
+      currency: DEFAULT_CURRENCY,
       travelers: 2,
       pace: "Moderate",
+      budgetMode: DEFAULT_BUDGET_MODE,
       interests: [],
     } as any, // eslint-disable-line @typescript-eslint/no-explicit-any
   })
 
+  const currency = getCurrency(useWatch({ control: form.control, name: "currency" }))
+
+  // Carry the budget over to the new currency so switching doesn't leave a nonsensical amount
+  const handleCurrencyChange = (nextCode: string) => {
+    const { budget, currency: previousCode } = form.getValues()
+    const step = budgetStep(nextCode)
+    if (budget && previousCode !== nextCode) {
+      const converted = convertOffline(budget, previousCode, nextCode)
+      form.setValue("budget", Math.max(step, Math.round(converted / step) * step), { shouldValidate: true })
+    }
+    form.setValue("currency", nextCode)
+  }
+
   const handleSubmit = (values: z.infer<typeof formSchema>) => {
     // Calculate days
     const days = differenceInDays(values.endDate, values.startDate) + 1;
@@ -209,7 +240,7 @@ export function TripInputForm({ onSubmit, isLoading }: TripInputFormProps) {
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
               {/* Travelers */}
               <FormField
                 control={form.control}
@@ -236,19 +267,43 @@ export function TripInputForm({ onSubmit, isLoading }: TripInputFormProps) {
                 )}
               />
 
+              {/* Currency */}
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-emerald-900 font-bold ml-1">Currency</FormLabel>
+                    <Select onValueChange={handleCurrencyChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="h-14 rounded-2xl border-emerald-100 bg-white shadow-sm hover:bg-emerald-50 text-base focus:ring-emerald-500/20">
+                          <SelectValue placeholder="Select currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="rounded-2xl border-emerald-100 shadow-xl bg-white text-emerald-950 z-50">
+                        {CURRENCIES.map((c) => (
+                          <SelectItem key={c.code} value={c.code}>{c.code} ({c.symbol})</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {/* Budget */}
               <FormField
                 control={form.control}
                 name="budget"
                 render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-emerald-900 font-bold ml-1">Total Budget (IDR)</FormLabel>
+                  <FormItem className="col-span-2 md:col-span-1">
+                    <FormLabel className="text-emerald-900 font-bold ml-1">Total Budget ({currency.code})</FormLabel>
                     <FormControl>
                       <div className="relative">
-                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-emerald-900/40 font-medium">Rp</span>
+                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-emerald-900/40 font-medium">{currency.symbol}</span>
                         <Input
                           type="number"
-                          step="500000"
+                          step={budgetStep(currency.code)}
                           {...field}
                           value={field.value || ""}
                           onChange={e => {
@@ -265,6 +320,37 @@ export function TripInputForm({ onSubmit, isLoading }: TripInputFormProps) {
               />
             </div>
 
+            {/* Budget Mode */}
+            <FormField
+              control={form.control}
+              name="budgetMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-emerald-900 font-bold ml-1">Budget Limit</FormLabel>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="grid-cols-1 md:grid-cols-2">
+                      {(["strict", "advisory"] as const).map((mode) => (
+                        <label
+                          key={mode}
+                          className={cn(
+                            "flex items-start gap-3 rounded-2xl border p-4 bg-white shadow-sm cursor-pointer transition-all",
+                            field.value === mode ? "border-emerald-500 ring-2 ring-emerald-500/20" : "border-emerald-100 hover:bg-emerald-50"
+                          )}
+                        >
+                          <RadioGroupItem value={mode} className="mt-0.5 border-emerald-300 text-emerald-600" />
+                          <span>
+                            <span className="block font-semibold text-emerald-950">{BUDGET_MODE_LABELS[mode]}</span>
+                            <span className="block text-sm text-emerald-700/70">{BUDGET_MODE_HINTS[mode]}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* Travel Styles (Interests) */}
             <FormField
               control={form.control}
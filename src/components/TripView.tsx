@@ -15,159 +15,144 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ItineraryDisplay, DayPlan } from "@/components/ItineraryDisplay";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ItineraryDisplay, Activity, DayPlan, ActivityAction, ActivityPosition, AddActivitySource } from "@/components/ItineraryDisplay";
 import { BudgetBreakdown, Budget } from "@/components/BudgetBreakdown";
-import jsPDF from "jspdf";
-import autoTable from "jspdf-autotable";
+import { BudgetWarning } from "@/components/BudgetWarning";
 import { toast } from "sonner";
-import { ArrowLeft, Save, Download, Calendar, Users, Wallet, Loader2, CloudSun, Sparkles, Share2 } from "lucide-react";
+import { format, isValid, parseISO } from "date-fns";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { ItineraryRole, ROLE_LABELS } from "@/lib/permissions";
+import { PresenceUser } from "@/lib/realtime";
+import { PresenceAvatars } from "@/components/PresenceAvatars";
+import { ActivityFeedback, mostDisputed } from "@/lib/feedback";
+import { buildCalendar, hasCalendarDates } from "@/lib/calendar";
+import { buildItineraryPdf, pdfFileName } from "@/lib/pdf";
+import { tripToCsv, tripToJson, tripToMarkdown } from "@/lib/tripFormats";
+import { downloadFile } from "@/lib/download";
+import type { BudgetMode } from "@/lib/budgetEnforcement";
+import type { BudgetActions } from "@/hooks/useBudgetActions";
+import type { ActualSpend } from "@/lib/expenses";
+import { ArrowLeft, Save, Download, Calendar, Users, Wallet, Loader2, CloudSun, Sparkles, Share2, Gauge, Undo2, Redo2, ThumbsUp, ThumbsDown, MessageSquare, Flame, CalendarPlus, FileText, FileJson, FileCode, Sheet, Sunrise } from "lucide-react";
 
 export interface TripData {
     destination: string;
     days: number;
-    budget: number;
+    budget: number; // Budget limit chosen in the form, not the computed total
     travelers: number;
+    travelerNames?: string[]; // Set in the expenses panel; see travelerNames() for the defaults
     currency?: string;
-    interests?: string;
+    interests?: string[];
+    pace?: string;
+    budgetMode?: BudgetMode; // How the budget limit was enforced at generation
+    dateRange?: { from: string; to: string }; // yyyy-MM-dd
+}
+
+export interface Weather {
+    summary: string;
+    temperature: string;
+}
+
+export interface Hotel {
+    name: string;
+    address: string;
+    description: string;
+    price_per_night: string;
+    currency: string;
+    booking_url_query: string;
+    category: string;
 }
 
 interface TripViewProps {
     tripData: TripData;
     itinerary: DayPlan[];
-    budgetBreakdown: Budget;
+    budgetBreakdown: Budget | null; // null while the budget is still being generated
     onSave?: () => void;
     isSaved?: boolean;
     isSaving?: boolean;
+    hasUnsavedChanges?: boolean; // Saved trip edited since the last write
     isPreview?: boolean;
-    onActivityUpdate?: (dayIndex: number, period: string, action: 'regenerate' | 'edit' | 'remove', data?: any) => void;
-    weather?: {
-        summary: string;
-        temperature: string;
-    };
-    hotels?: Array<{
-        name: string;
-        address: string;
-        description: string;
-        price_per_night: string;
-        currency: string;
-        booking_url_query: string;
-        category: string;
-    }>;
+    isSharedView?: boolean; // Opened from a public share link: read-only, no account needed
+    onShare?: () => void;
+    onManageCollaborators?: () => void;
+    accessRole?: ItineraryRole | null; // Saved trips: the viewer's role, shown when it isn't their own trip
+    onActivityUpdate?: (dayIndex: number, activityIndex: number, action: ActivityAction) => void;
+    onAddActivity?: (dayIndex: number, source: AddActivitySource) => void;
+    onMoveActivity?: (from: ActivityPosition, to: ActivityPosition) => void;
+    presence?: PresenceUser[]; // Saved trips: other people viewing it right now
+    lockedActivities?: Record<string, PresenceUser>; // Activity id -> co-planner editing it
+    feedback?: Record<string, ActivityFeedback>; // Saved trips: votes and comments per activity id
+    onOpenDiscussion?: (activity: Activity) => void;
+    today?: { href: string; isActive: boolean }; // Saved trips: link to the on-trip "Today" view, highlighted while the trip is under way
+    weather?: Weather;
+    hotels?: Hotel[];
     onRegenerate?: () => void;
     regenerationCount?: number;
+    generationStatus?: { progress: number; message: string }; // Set while the itinerary is still streaming in
+    sidebar?: ReactNode; // Extra panels under the budget, e.g. version history
+    budgetActions?: BudgetActions; // Editable trips: shows the Budget Alert while the total is over the limit
+    actualSpend?: ActualSpend; // Saved trips with logged expenses, compared against the estimate
+    history?: { onUndo: () => void; onRedo: () => void; undoLabel: string | null; redoLabel: string | null }; // Labels are null when there is nothing to undo / redo
 }
 
-export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved = false, isSaving = false, isPreview = false, onActivityUpdate, weather, hotels, onRegenerate, regenerationCount = 0 }: TripViewProps) {
+export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved = false, isSaving = false, hasUnsavedChanges = false, isPreview = false, isSharedView = false, onShare, onManageCollaborators, accessRole, onActivityUpdate, onAddActivity, onMoveActivity, presence = [], lockedActivities, feedback, onOpenDiscussion, today, weather, hotels, onRegenerate, regenerationCount = 0, generationStatus, history, sidebar, budgetActions, actualSpend }: TripViewProps) {
     const router = useRouter();
     const [isAlertOpen, setIsAlertOpen] = useState(false);
 
+    const backHref = isPreview || isSharedView ? "/plan" : "/dashboard";
+    const disputed = feedback ? mostDisputed(itinerary, feedback) : [];
+
     const handleBack = () => {
-        if (isPreview && !isSaved) {
+        if ((isPreview && !isSaved) || hasUnsavedChanges) {
             setIsAlertOpen(true);
         } else {
-            router.push(isPreview ? "/plan" : "/dashboard");
+            router.push(backHref);
         }
     };
 
     const handleConfirmLeave = () => {
-        router.push("/plan");
-    };
-
-    const handleShare = () => {
-        navigator.clipboard.writeText(window.location.href)
-            .then(() => toast.success("Link copied to clipboard!"))
-            .catch(() => toast.error("Failed to copy link."));
+        router.push(backHref);
     };
 
     const handleExportPDF = () => {
-        // ... (existing export logic)
-        const doc = new jsPDF();
-        const pageWidth = doc.internal.pageSize.getWidth();
-
-        // --- HEADER ---
-        doc.setFillColor(13, 148, 136); // Teal-600
-        doc.rect(0, 0, pageWidth, 40, "F");
-
-        doc.setTextColor(255, 255, 255);
-        doc.setFontSize(22);
-        doc.setFont("helvetica", "bold");
-        doc.text(tripData.destination.toUpperCase(), 20, 20);
-
-        doc.setFontSize(12);
-        doc.setFont("helvetica", "normal");
-        doc.text(`${tripData.days} Days Trip`, 20, 30);
-
-        const currency = tripData.currency || "IDR";
-        doc.text(`Budget: ${tripData.budget.toLocaleString()} ${currency}`, pageWidth - 20, 20, { align: "right" });
-        doc.text(`Travelers: ${tripData.travelers}`, pageWidth - 20, 30, { align: "right" });
-
-        // --- CONTENT ---
-        let finalY = 50;
-
-        itinerary.forEach((day) => {
-            // Day Header
-            doc.setFontSize(14);
-            doc.setTextColor(13, 148, 136); // Teal
-            doc.setFont("helvetica", "bold");
-
-            if (finalY > 250) {
-                doc.addPage();
-                finalY = 20;
-            }
-
-            doc.text(`Day ${day.day}: ${day.date || ""}`, 14, finalY);
-            finalY += 5;
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const tableBody: any[] = [];
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const processActivity = (period: string, act: any) => {
-                tableBody.push([
-                    period,
-                    act.time,
-                    `${act.name}\n${act.description}`,
-                    act.cost
-                ]);
-            };
-
-            processActivity("Morning", day.activities.morning);
-            processActivity("Lunch", day.activities.lunch);
-            processActivity("Afternoon", day.activities.afternoon);
-            processActivity("Dinner", day.activities.dinner);
-            processActivity("Evening", day.activities.evening);
-
-            autoTable(doc, {
-                startY: finalY,
-                head: [['Period', 'Time', 'Activity', 'Cost']],
-                body: tableBody,
-                theme: 'grid',
-                headStyles: { fillColor: [13, 148, 136] },
-                columnStyles: {
-                    0: { fontStyle: 'bold', cellWidth: 25 },
-                    1: { cellWidth: 25 },
-                    2: { cellWidth: 'auto' },
-                    3: { cellWidth: 30, halign: 'right' }
-                },
-                styles: { fontSize: 10, cellPadding: 4 },
-                margin: { top: 20 },
-                didDrawPage: (data) => {
-                    const pageCount = doc.getNumberOfPages();
-                    doc.setFontSize(8);
-                    doc.setTextColor(150);
-                    doc.text('Generated by Pathfinder', data.settings.margin.left, doc.internal.pageSize.height - 10);
-                    doc.text(`Page ${pageCount}`, doc.internal.pageSize.width - 20, doc.internal.pageSize.height - 10, { align: 'right' });
-                }
-            });
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            finalY = (doc as any).lastAutoTable.finalY + 15;
-        });
-
-        doc.save(`${tripData.destination}_Itinerary.pdf`);
+        const doc = buildItineraryPdf({ tripData, itinerary, budget: budgetBreakdown, weather, hotels });
+        doc.save(pdfFileName(tripData));
         toast.success("PDF exported successfully!");
     };
 
+    // One calendar event per activity, on the trip's real dates
+    const handleExportCalendar = () => {
+        if (!hasCalendarDates(itinerary, tripData)) {
+            toast.error("This trip has no dates to put in a calendar.");
+            return;
+        }
+
+        downloadFile(buildCalendar(itinerary, tripData), `${tripData.destination}_Itinerary.ics`, "text/calendar;charset=utf-8");
+        toast.success("Calendar exported! Open the file to add it to your calendar.");
+    };
+
+    // JSON is a full backup that can be imported again from the dashboard
+    const handleExportData = (kind: "json" | "csv" | "markdown") => {
+        const trip = { tripData, itinerary, budget: budgetBreakdown, weather: weather || null, hotels: hotels || [] };
+        const baseName = `${tripData.destination}_Itinerary`;
+
+        if (kind === "json") {
+            if (!trip.budget) return;
+            downloadFile(tripToJson({ ...trip, budget: trip.budget }), `${baseName}.json`, "application/json");
+        } else if (kind === "csv") {
+            downloadFile(tripToCsv(trip), `${baseName}.csv`, "text/csv;charset=utf-8");
+        } else {
+            downloadFile(tripToMarkdown(trip), `${baseName}.md`, "text/markdown;charset=utf-8");
+        }
+        toast.success("Trip exported!");
+    };
+
     return (
         <div className="min-h-screen relative bg-emerald-50 dark:bg-zinc-950 overflow-hidden">
             {/* Detailed Vector Background */}
@@ -182,24 +167,110 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                 <div className="mb-12 flex items-center justify-between">
                     <Button variant="ghost" onClick={handleBack} className="hover:bg-emerald-100/50 text-emerald-800 -ml-4 flex items-center gap-2 font-medium">
                         <ArrowLeft className="w-5 h-5" />
-                        {isPreview ? "Back to Planning" : "Back to Dashboard"}
+                        {isSharedView ? "Plan Your Own Trip" : isPreview ? "Back to Planning" : "Back to Dashboard"}
                     </Button>
 
-                    <div className="flex gap-3">
-                        {/* Share Button (Only visible if saved or in preview) */}
-                        {isSaved && (
-                            <Button onClick={handleShare} variant="outline" className="gap-2 border-emerald-200 bg-white hover:bg-emerald-50 text-emerald-700 shadow-sm">
+                    <div className={`flex gap-3 items-center ${generationStatus ? "invisible" : ""}`}>
+                        {hasUnsavedChanges && (
+                            <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-amber-700 bg-amber-100 px-3 py-1.5 rounded-full">
+                                <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
+                                Unsaved changes
+                            </span>
+                        )}
+
+                        {/* Undo / Redo */}
+                        {history && (
+                            <div className="flex rounded-full bg-white shadow-sm ring-1 ring-emerald-200 overflow-hidden">
+                                <Button
+                                    onClick={history.onUndo}
+                                    disabled={!history.undoLabel}
+                                    variant="ghost"
+                                    size="icon"
+                                    className="rounded-none text-emerald-700 hover:bg-emerald-50"
+                                    title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+                                >
+                                    <Undo2 className="w-4 h-4" />
+                                    <span className="sr-only">Undo</span>
+                                </Button>
+                                <Button
+                                    onClick={history.onRedo}
+                                    disabled={!history.redoLabel}
+                                    variant="ghost"
+                                    size="icon"
+                                    className="rounded-none text-emerald-700 hover:bg-emerald-50 border-l border-emerald-100"
+                                    title={history.redoLabel ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                                >
+                                    <Redo2 className="w-4 h-4" />
+                                    <span className="sr-only">Redo</span>
+                                </Button>
+                            </div>
+                        )}
+
+                        <PresenceAvatars people={presence} />
+
+                        {today && (
+                            <Button asChild variant="outline" className={`gap-2 shadow-sm ${today.isActive ? "border-orange-300 bg-orange-50 hover:bg-orange-100 text-orange-700" : "border-emerald-200 bg-white hover:bg-emerald-50 text-emerald-700"}`}>
+                                <Link href={today.href}>
+                                    <Sunrise className="w-4 h-4" />
+                                    Today
+                                </Link>
+                            </Button>
+                        )}
+
+                        {accessRole && accessRole !== "owner" && (
+                            <span className="text-xs font-bold uppercase tracking-wider text-indigo-700 bg-indigo-100 px-3 py-1.5 rounded-full">
+                                Shared with you · {ROLE_LABELS[accessRole]}
+                            </span>
+                        )}
+
+                        {onManageCollaborators && (
+                            <Button onClick={onManageCollaborators} variant="outline" className="gap-2 border-emerald-200 bg-white hover:bg-emerald-50 text-emerald-700 shadow-sm">
+                                <Users className="w-4 h-4" />
+                                People
+                            </Button>
+                        )}
+
+                        {/* Share Button (Only visible on saved trips) */}
+                        {isSaved && onShare && (
+                            <Button onClick={onShare} variant="outline" className="gap-2 border-emerald-200 bg-white hover:bg-emerald-50 text-emerald-700 shadow-sm">
                                 <Share2 className="w-4 h-4" />
                                 Share
                             </Button>
                         )}
 
-                        <Button onClick={handleExportPDF} variant="outline" className="gap-2 border-emerald-200 bg-white hover:bg-emerald-50 text-emerald-700 shadow-sm">
-                            <Download className="w-4 h-4" />
-                            PDF
-                        </Button>
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="outline" className="gap-2 border-emerald-200 bg-white hover:bg-emerald-50 text-emerald-700 shadow-sm">
+                                    <Download className="w-4 h-4" />
+                                    Export
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="w-[210px] border-emerald-100 bg-white/95 backdrop-blur-sm">
+                                <DropdownMenuItem onClick={handleExportPDF} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                                    <FileText className="h-4 w-4" />
+                                    PDF Document
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={handleExportCalendar} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                                    <CalendarPlus className="h-4 w-4" />
+                                    Calendar (.ics)
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator className="bg-emerald-100/50" />
+                                <DropdownMenuItem onClick={() => handleExportData("json")} disabled={!budgetBreakdown} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                                    <FileJson className="h-4 w-4" />
+                                    Backup (.json)
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleExportData("csv")} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                                    <Sheet className="h-4 w-4" />
+                                    Spreadsheet (.csv)
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleExportData("markdown")} className="text-emerald-700 focus:bg-emerald-50 focus:text-emerald-900 gap-2 cursor-pointer">
+                                    <FileCode className="h-4 w-4" />
+                                    Markdown (.md)
+                                </DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
                         {onSave && (
-                            <Button onClick={onSave} className="gap-2 rounded-full px-6 bg-orange-500 text-white hover:bg-orange-600 shadow-lg shadow-orange-500/20 font-bold transition-all hover:scale-105 disabled:opacity-70 disabled:hover:scale-100" disabled={isSaved || isSaving}>
+                            <Button onClick={onSave} className="gap-2 rounded-full px-6 bg-orange-500 text-white hover:bg-orange-600 shadow-lg shadow-orange-500/20 font-bold transition-all hover:scale-105 disabled:opacity-70 disabled:hover:scale-100" disabled={(isSaved && !hasUnsavedChanges) || isSaving}>
                                 {isSaving ? (
                                     <>
                                         <Loader2 className="w-4 h-4 animate-spin" />
@@ -208,7 +279,7 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                                 ) : (
                                     <>
                                         <Save className="w-4 h-4" />
-                                        {isSaved ? "Saved" : "Save Trip"}
+                                        {hasUnsavedChanges ? "Save Changes" : isSaved ? "Saved" : "Save Trip"}
                                     </>
                                 )}
                             </Button>
@@ -225,13 +296,23 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                     <div className="flex flex-wrap justify-center gap-4 text-emerald-800/80 items-center font-medium">
                         <span className="flex items-center gap-2 bg-white/60 px-4 py-2 rounded-full shadow-sm ring-1 ring-emerald-50">
                             <Calendar className="w-5 h-5 text-teal-600" /> {tripData.days} Days
+                            {tripData.dateRange && isValid(parseISO(tripData.dateRange.from)) && isValid(parseISO(tripData.dateRange.to)) && (
+                                <span className="text-emerald-800/50 text-sm">
+                                    · {format(parseISO(tripData.dateRange.from), "MMM d")} – {format(parseISO(tripData.dateRange.to), "MMM d, yyyy")}
+                                </span>
+                            )}
                         </span>
                         <span className="flex items-center gap-2 bg-white/60 px-4 py-2 rounded-full shadow-sm ring-1 ring-emerald-50">
                             <Users className="w-5 h-5 text-orange-500" /> {tripData.travelers} Travelers
                         </span>
                         <span className="flex items-center gap-2 bg-white/60 px-4 py-2 rounded-full shadow-sm ring-1 ring-emerald-50">
-                            <Wallet className="w-5 h-5 text-emerald-600" /> {tripData.budget.toLocaleString()} {tripData.currency || "IDR"}
+                            <Wallet className="w-5 h-5 text-emerald-600" /> {formatMoney(tripData.budget, tripData.currency || DEFAULT_CURRENCY)}
                         </span>
+                        {tripData.pace && (
+                            <span className="flex items-center gap-2 bg-white/60 px-4 py-2 rounded-full shadow-sm ring-1 ring-emerald-50">
+                                <Gauge className="w-5 h-5 text-indigo-500" /> {tripData.pace} Pace
+                            </span>
+                        )}
                         {weather && (
                             <span className="flex items-center gap-2 bg-white/60 px-4 py-2 rounded-full shadow-sm ring-1 ring-emerald-50" title={weather.summary}>
                                 <CloudSun className="w-5 h-5 text-amber-500" /> {weather.temperature}
@@ -239,6 +320,16 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                         )}
                     </div>
 
+                    {tripData.interests && tripData.interests.length > 0 && (
+                        <div className="flex flex-wrap justify-center gap-2">
+                            {tripData.interests.map((interest) => (
+                                <span key={interest} className="text-xs font-bold px-3 py-1 rounded-full bg-orange-100 text-orange-700">
+                                    {interest}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
                     {weather && (
                         <div className="bg-emerald-50/50 p-4 rounded-xl border border-emerald-100 max-w-2xl mx-auto mt-6">
                             <p className="text-emerald-800/80 text-sm italic">
@@ -248,10 +339,37 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                     )}
                 </div>
 
+                {/* Generation Progress */}
+                {generationStatus && (
+                    <div className="sticky top-4 z-20 max-w-2xl mx-auto -mt-8 mb-12 bg-white/90 backdrop-blur rounded-2xl shadow-xl shadow-emerald-900/5 ring-1 ring-emerald-100 p-4 space-y-3">
+                        <div className="flex items-center gap-3 text-emerald-900 font-medium text-sm">
+                            <Loader2 className="w-4 h-4 animate-spin text-orange-500" />
+                            {generationStatus.message}
+                        </div>
+                        <div className="h-2 bg-orange-100 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-orange-500 transition-all duration-700 ease-out"
+                                style={{ width: `${generationStatus.progress}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {/* Over the limit: raise it, swap in cheaper picks, or drop a day */}
+                {budgetActions && budgetBreakdown && !generationStatus && (
+                    <BudgetWarning
+                        currentBudget={tripData.budget}
+                        estimatedCost={budgetBreakdown.total}
+                        currency={budgetBreakdown.currency || tripData.currency || DEFAULT_CURRENCY}
+                        days={itinerary.length}
+                        {...budgetActions}
+                    />
+                )}
+
                 {/* Content */}
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 w-full items-start">
                     <div className="lg:col-span-2 space-y-8">
-                        <ItineraryDisplay days={itinerary} onActivityUpdate={onActivityUpdate} />
+                        <ItineraryDisplay days={itinerary} onActivityUpdate={onActivityUpdate} onAddActivity={onAddActivity} onMoveActivity={onMoveActivity} lockedActivities={lockedActivities} feedback={feedback} onOpenDiscussion={onOpenDiscussion} />
 
                         {/* Bottom Regeneration Action */}
                         {onRegenerate && isPreview && (
@@ -276,6 +394,46 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                         )}
                     </div>
                     <div className="lg:col-span-1 lg:sticky lg:top-8 space-y-8">
+                        {/* Most Disputed: what the group objects to, so the organizer knows what to regenerate */}
+                        {disputed.length > 0 && (
+                            <div className="bg-white rounded-[2rem] shadow-xl shadow-emerald-900/5 overflow-hidden">
+                                <div className="bg-red-50 p-6 border-b border-red-100">
+                                    <h3 className="text-xl font-bold text-red-900 flex items-center gap-2">
+                                        <Flame className="w-5 h-5 text-red-500" /> Most Disputed
+                                    </h3>
+                                </div>
+                                <div className="divide-y divide-emerald-50">
+                                    {disputed.map((entry) => (
+                                        <div key={entry.activityId} className="p-4 space-y-2">
+                                            <div className="flex items-start justify-between gap-3">
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-bold text-emerald-950 truncate">{entry.name}</p>
+                                                    <p className="text-xs text-emerald-800/50">Day {entry.day}</p>
+                                                </div>
+                                                <span className="flex items-center gap-2 text-xs font-bold text-emerald-800/60 shrink-0">
+                                                    <span className="flex items-center gap-1"><ThumbsUp className="w-3 h-3" /> {entry.feedback.up}</span>
+                                                    <span className="flex items-center gap-1 text-red-500"><ThumbsDown className="w-3 h-3" /> {entry.feedback.down}</span>
+                                                    <span className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> {entry.feedback.comments}</span>
+                                                </span>
+                                            </div>
+                                            <div className="flex gap-2">
+                                                {onOpenDiscussion && (
+                                                    <Button size="sm" variant="outline" onClick={() => onOpenDiscussion(itinerary[entry.dayIndex].activities[entry.activityIndex])} className="h-8 text-xs rounded-xl border-emerald-200 text-emerald-700 hover:bg-emerald-50">
+                                                        Discuss
+                                                    </Button>
+                                                )}
+                                                {onActivityUpdate && !lockedActivities?.[entry.activityId] && (
+                                                    <Button size="sm" variant="outline" onClick={() => onActivityUpdate(entry.dayIndex, entry.activityIndex, 'regenerate')} className="h-8 text-xs gap-1 rounded-xl border-orange-200 text-orange-600 hover:bg-orange-50">
+                                                        <Sparkles className="w-3 h-3" /> Regenerate
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Hotels Section */}
                         {hotels && hotels.length > 0 && (
                             <div className="bg-white rounded-[2rem] shadow-xl shadow-emerald-900/5 overflow-hidden border-0">
@@ -326,7 +484,18 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                             </div>
                         )}
 
-                        <BudgetBreakdown budget={budgetBreakdown} budgetLimit={tripData.budget} />
+                        {budgetBreakdown ? (
+                            <BudgetBreakdown budget={budgetBreakdown} budgetLimit={tripData.budget} actual={actualSpend} />
+                        ) : (
+                            <div className="bg-white rounded-[2rem] shadow-xl shadow-emerald-900/5 p-6 space-y-4 animate-pulse">
+                                <div className="h-6 w-40 bg-orange-100 rounded-full" />
+                                {[0, 1, 2, 3, 4].map((row) => (
+                                    <div key={row} className="h-8 bg-emerald-50 rounded-xl" />
+                                ))}
+                            </div>
+                        )}
+
+                        {sidebar}
                     </div>
                 </div>
             </div>
@@ -336,7 +505,9 @@ export function TripView({ tripData, itinerary, budgetBreakdown, onSave, isSaved
                     <AlertDialogHeader>
                         <AlertDialogTitle className="text-xl font-bold text-emerald-950">Discard Unsaved Changes?</AlertDialogTitle>
                         <AlertDialogDescription className="text-emerald-800/70">
-                            You have unsaved changes. If you leave now, your current itinerary will be lost forever.
+                            {isPreview
+                                ? "You have unsaved changes. If you leave now, your current itinerary will be lost forever."
+                                : "You have unsaved edits to this trip. If you leave now, they will be lost."}
                         </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
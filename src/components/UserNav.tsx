@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { confirmSignOut } from "@/lib/offline";
 import { Button } from "@/components/ui/button";
 import { User } from "@supabase/supabase-js";
 import { UserCircle } from "lucide-react";
@@ -38,6 +39,7 @@ export function UserNav() {
     }, []);
 
     const handleSignOut = async () => {
+        if (!(await confirmSignOut())) return;
         await supabase.auth.signOut();
         window.location.reload();
     };
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { History, RotateCcw, ChevronDown, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ItineraryVersion, describeChanges, summarizeVersion } from "@/lib/versions";
+
+interface VersionHistoryProps {
+    versions: ItineraryVersion[]; // Newest first; the first one is what's saved now
+    currentUserId?: string | null;
+    onRestore?: (version: ItineraryVersion) => void; // Omitted for viewers, who can't restore
+    isRestoring?: boolean;
+    hasUnsavedChanges?: boolean;
+}
+
+export function VersionHistory({ versions, currentUserId, onRestore, isRestoring = false, hasUnsavedChanges = false }: VersionHistoryProps) {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [versionToRestore, setVersionToRestore] = useState<ItineraryVersion | null>(null);
+
+    if (versions.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-[2rem] shadow-xl shadow-emerald-900/5 overflow-hidden">
+            <div className="bg-emerald-50 p-6 border-b border-emerald-100">
+                <h3 className="text-xl font-bold text-emerald-900 flex items-center gap-2">
+                    <History className="w-5 h-5 text-emerald-600" /> Version History
+                </h3>
+            </div>
+
+            <div className="divide-y divide-emerald-50 max-h-[420px] overflow-y-auto">
+                {versions.map((version, index) => {
+                    const previous = versions[index + 1] || null;
+                    const isCurrent = index === 0;
+                    const isExpanded = expandedId === version.id;
+                    const changes = previous ? describeChanges(previous, version) : [];
+                    const author = version.authorId && version.authorId === currentUserId ? "You" : version.authorEmail || "Unknown";
+
+                    return (
+                        <div key={version.id} className="p-4 space-y-2">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-bold text-emerald-950 flex items-center gap-2">
+                                        Version {version.number}
+                                        {isCurrent && (
+                                            <span className="text-[10px] font-extrabold uppercase tracking-widest px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-lg">Current</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-emerald-800/50 truncate">
+                                        {format(parseISO(version.createdAt), "MMM d, yyyy · HH:mm")} · {author}
+                                    </p>
+                                </div>
+
+                                {!isCurrent && onRestore && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        disabled={isRestoring}
+                                        onClick={() => setVersionToRestore(version)}
+                                        className="shrink-0 gap-1 rounded-xl border-emerald-200 text-emerald-700 hover:bg-emerald-50 h-8 text-xs"
+                                    >
+                                        <RotateCcw className="w-3 h-3" />
+                                        Restore
+                                    </Button>
+                                )}
+                            </div>
+
+                            <button
+                                type="button"
+                                onClick={() => setExpandedId(isExpanded ? null : version.id)}
+                                disabled={changes.length === 0}
+                                className="w-full text-left text-xs text-emerald-800/70 flex items-start gap-1 disabled:cursor-default"
+                            >
+                                {changes.length > 0 && <ChevronDown className={`w-3 h-3 mt-0.5 shrink-0 transition-transform ${isExpanded ? "rotate-180" : ""}`} />}
+                                <span>{summarizeVersion(version, previous)}</span>
+                            </button>
+
+                            {isExpanded && (
+                                <ul className="text-xs text-emerald-800/60 space-y-1 pl-4 list-disc">
+                                    {changes.map((change, changeIndex) => (
+                                        <li key={changeIndex}>{change}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <AlertDialog open={!!versionToRestore} onOpenChange={(open) => !open && setVersionToRestore(null)}>
+                <AlertDialogContent className="bg-white dark:bg-zinc-900 border-none rounded-2xl">
+                    <AlertDialogHeader>
+                        <AlertDialogTitle className="text-xl font-bold text-emerald-950">Restore Version {versionToRestore?.number}?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-emerald-800/70">
+                            The trip will be saved as it was in this version. The current version stays in the history, so you can switch back at any time.
+                            {hasUnsavedChanges && " Your unsaved changes will be lost."}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel className="rounded-full border-none hover:bg-emerald-50 text-emerald-700">Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() => {
+                                if (versionToRestore) onRestore?.(versionToRestore);
+                                setVersionToRestore(null);
+                            }}
+                            className="bg-orange-500 hover:bg-orange-600 rounded-full px-6 font-bold"
+                        >
+                            {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : "Restore"}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
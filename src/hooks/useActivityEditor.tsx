@@ -0,0 +1,323 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { TripData } from "@/components/TripView";
+import { Activity, ActivityAction, ActivityPosition, AddActivitySource, DayPlan } from "@/components/ItineraryDisplay";
+import { Budget } from "@/components/BudgetBreakdown";
+import { RegenerateModal } from "@/components/RegenerateModal";
+import { ManualEditModal } from "@/components/ManualEditModal";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { FREE_COST, adjustBudget, costCategory, costTotal } from "@/lib/cost";
+import { createActivityId, normalizeActivity } from "@/lib/itineraries";
+import { insertionIndex, reflowTimes } from "@/lib/time";
+
+// Returns a copy of the itinerary with one activity replaced (or removed when null), leaving the original untouched
+const withActivity = (itinerary: DayPlan[], dayIndex: number, activityIndex: number, activity: Activity | null): DayPlan[] =>
+    itinerary.map((day, index) => index === dayIndex
+        ? {
+            ...day,
+            activities: activity
+                ? day.activities.map((current, i) => i === activityIndex ? activity : current)
+                : day.activities.filter((_, i) => i !== activityIndex)
+        }
+        : day
+    );
+
+interface UseActivityEditorOptions {
+    itinerary: DayPlan[] | null;
+    budget: Budget | null;
+    tripData: TripData | null;
+    // Called with the next itinerary and budget after every change, plus a short description of it
+    onChange: (itinerary: DayPlan[], budget: Budget | null, label: string) => void;
+}
+
+/**
+ * Shared regenerate / edit / remove / add / move flow for activities.
+ * Owns the modal state and returns the handlers to pass to TripView plus the dialogs to render.
+ */
+export function useActivityEditor({ itinerary, budget, tripData, onChange }: UseActivityEditorOptions) {
+    // Regeneration State
+    const [isFetchingAlternatives, setIsFetchingAlternatives] = useState(false);
+    const [regenerateModalOpen, setRegenerateModalOpen] = useState(false);
+    const [alternatives, setAlternatives] = useState<Activity[]>([]);
+    // activityIndex is null while adding a new activity to the day
+    const [selectedContext, setSelectedContext] = useState<{ dayIndex: number, activityIndex: number | null } | null>(null);
+
+    // Manual Edit State
+    const [manualEditModalOpen, setManualEditModalOpen] = useState(false);
+    const [activityToEdit, setActivityToEdit] = useState<Activity | null>(null);
+
+    // Delete Confirmation State
+    const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+    const [itemToDelete, setItemToDelete] = useState<{ dayIndex: number, activityIndex: number } | null>(null);
+
+    const currency = budget?.currency || tripData?.currency || DEFAULT_CURRENCY;
+    const travelers = tripData?.travelers || 1;
+
+    const replaceActivity = (dayIndex: number, activityIndex: number, newActivity: Activity, label: string) => {
+        if (!itinerary || !itinerary[dayIndex]) {
+            console.error("Day index out of bounds");
+            return;
+        }
+
+        const oldActivity = itinerary[dayIndex].activities[activityIndex];
+        if (!oldActivity) {
+            console.error("Activity not found for update");
+            return;
+        }
+
+        // Keep the id so the activity stays the same item in lists and history
+        const updatedItinerary = withActivity(itinerary, dayIndex, activityIndex, { ...newActivity, id: oldActivity.id });
+
+        if (budget) {
+            const diff = costTotal(newActivity.cost, travelers) - costTotal(oldActivity.cost, travelers);
+            const budgetAfterRemoval = adjustBudget(budget, -costTotal(oldActivity.cost, travelers), costCategory(oldActivity.type));
+            onChange(updatedItinerary, adjustBudget(budgetAfterRemoval, costTotal(newActivity.cost, travelers), costCategory(newActivity.type)), label);
+
+            const diffText = diff > 0 ? `+${formatMoney(diff, currency)}` : formatMoney(diff, currency);
+            toast.success(`Activity updated! Budget: ${diffText}`);
+        } else {
+            onChange(updatedItinerary, budget, label);
+            toast.success("Activity updated!");
+        }
+    };
+
+    const insertActivity = (dayIndex: number, newActivity: Activity) => {
+        if (!itinerary || !itinerary[dayIndex]) {
+            console.error("Day index out of bounds");
+            return;
+        }
+
+        const activity = { ...newActivity, id: createActivityId() };
+        const updatedItinerary = itinerary.map((day, index) => {
+            if (index !== dayIndex) return day;
+            const activities = [...day.activities];
+            activities.splice(insertionIndex(activities, activity.time), 0, activity);
+            return { ...day, activities };
+        });
+
+        if (budget) {
+            const added = costTotal(activity.cost, travelers);
+            onChange(updatedItinerary, adjustBudget(budget, added, costCategory(activity.type)), `Add "${activity.name}"`);
+            toast.success(`Activity added! Budget: +${formatMoney(added, currency)}`);
+        } else {
+            onChange(updatedItinerary, budget, `Add "${activity.name}"`);
+            toast.success("Activity added!");
+        }
+    };
+
+    // Replace the selected activity, or add one when nothing was selected
+    const applyToSelection = (activity: Activity, label: string) => {
+        if (!selectedContext) return;
+        if (selectedContext.activityIndex === null) {
+            insertActivity(selectedContext.dayIndex, activity);
+        } else {
+            replaceActivity(selectedContext.dayIndex, selectedContext.activityIndex, activity, label);
+        }
+    };
+
+    const handleConfirmDelete = () => {
+        if (!itemToDelete || !itinerary) return;
+
+        const { dayIndex, activityIndex } = itemToDelete;
+        const currentActivity = itinerary[dayIndex]?.activities[activityIndex];
+        const updatedItinerary = withActivity(itinerary, dayIndex, activityIndex, null);
+
+        onChange(updatedItinerary, budget && currentActivity
+            ? adjustBudget(budget, -costTotal(currentActivity.cost, travelers), costCategory(currentActivity.type))
+            : budget,
+            `Remove "${currentActivity?.name || "activity"}"`
+        );
+
+        toast.success("Activity removed.");
+        setDeleteDialogOpen(false);
+        setItemToDelete(null);
+    };
+
+    const handleActivityUpdate = async (dayIndex: number, activityIndex: number, action: ActivityAction) => {
+        if (!itinerary || !tripData) return;
+
+        const currentActivity = itinerary[dayIndex]?.activities[activityIndex];
+        if (!currentActivity) return;
+
+        if (action === 'remove') {
+            setItemToDelete({ dayIndex, activityIndex });
+            setDeleteDialogOpen(true);
+            return;
+        }
+
+        if (action === 'regenerate') {
+            setIsFetchingAlternatives(true);
+            setRegenerateModalOpen(true);
+            setSelectedContext({ dayIndex, activityIndex });
+            setAlternatives([]); // clear previous
+
+            try {
+                const response = await fetch("/api/activity/regenerate", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        destination: tripData.destination,
+                        currentActivity: currentActivity,
+                        preferences: tripData.interests, // Passing raw string interests
+                        timeSlot: currentActivity.time,
+                        currency
+                    })
+                });
+
+                if (!response.ok) throw new Error("Failed to fetch suggestions");
+
+                const data = await response.json();
+                setAlternatives((data.alternatives || []).map((alt: Partial<Activity>) =>
+                    normalizeActivity(alt, currentActivity.type, currency)
+                ));
+            } catch (error) {
+                console.error(error);
+                toast.error("Failed to regenerate activity.");
+                setRegenerateModalOpen(false);
+            } finally {
+                setIsFetchingAlternatives(false);
+            }
+        }
+
+        if (action === 'edit') {
+            setActivityToEdit(currentActivity);
+            setSelectedContext({ dayIndex, activityIndex });
+            setManualEditModalOpen(true);
+        }
+    };
+
+    const handleManualEditSave = (updatedActivity: Activity) => {
+        try {
+            applyToSelection(updatedActivity, `Edit "${updatedActivity.name}"`);
+            setManualEditModalOpen(false);
+        } catch (error) {
+            console.error("Error saving manual edit:", error);
+            toast.error("Failed to save changes. Please try again.");
+        }
+    };
+
+    const handleAlternativeSelect = (newActivity: Activity) => {
+        applyToSelection(newActivity, `Replace with "${newActivity.name}"`);
+        setRegenerateModalOpen(false);
+    };
+
+    const handleAddActivity = async (dayIndex: number, source: AddActivitySource) => {
+        if (!itinerary || !tripData || !itinerary[dayIndex]) return;
+
+        setSelectedContext({ dayIndex, activityIndex: null });
+
+        if (source === 'manual') {
+            setActivityToEdit({ id: "", type: "sight", name: "", description: "", time: "", cost: FREE_COST(currency) });
+            setManualEditModalOpen(true);
+            return;
+        }
+
+        setIsFetchingAlternatives(true);
+        setRegenerateModalOpen(true);
+        setAlternatives([]); // clear previous
+
+        try {
+            const response = await fetch("/api/activity/suggest", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    destination: tripData.destination,
+                    dayNumber: itinerary[dayIndex].day,
+                    activities: itinerary[dayIndex].activities,
+                    preferences: tripData.interests,
+                    currency
+                })
+            });
+
+            if (!response.ok) throw new Error("Failed to fetch suggestions");
+
+            const data = await response.json();
+            setAlternatives((data.alternatives || []).map((alt: Partial<Activity>) =>
+                normalizeActivity(alt, "sight", currency)
+            ));
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to suggest an activity.");
+            setRegenerateModalOpen(false);
+        } finally {
+            setIsFetchingAlternatives(false);
+        }
+    };
+
+    // Move an activity within its day or to another one; `to.activityIndex` is its index in the destination list
+    const handleMoveActivity = (from: ActivityPosition, to: ActivityPosition) => {
+        if (!itinerary) return;
+
+        const activity = itinerary[from.dayIndex]?.activities[from.activityIndex];
+        if (!activity || !itinerary[to.dayIndex]) return;
+        if (from.dayIndex === to.dayIndex && from.activityIndex === to.activityIndex) return;
+
+        const updatedItinerary = itinerary.map((day) => ({ ...day, activities: [...day.activities] }));
+        updatedItinerary[from.dayIndex].activities.splice(from.activityIndex, 1);
+
+        const destination = updatedItinerary[to.dayIndex];
+        const targetIndex = Math.max(0, Math.min(to.activityIndex, destination.activities.length));
+        destination.activities.splice(targetIndex, 0, activity);
+        destination.activities = reflowTimes(destination.activities, targetIndex);
+
+        // Costs don't change, so neither does the budget
+        onChange(updatedItinerary, budget, `Move "${activity.name}"`);
+        if (from.dayIndex !== to.dayIndex) toast.success(`Moved to Day ${destination.day}.`);
+    };
+
+    const isAdding = selectedContext?.activityIndex === null;
+    // Shown to co-planners as a soft lock while the edit form is open
+    const editingActivityId = manualEditModalOpen && !isAdding ? activityToEdit?.id || null : null;
+
+    const dialogs = (
+        <>
+            <RegenerateModal
+                isOpen={regenerateModalOpen}
+                onClose={() => setRegenerateModalOpen(false)}
+                isLoading={isFetchingAlternatives}
+                alternatives={alternatives}
+                onSelect={handleAlternativeSelect}
+                title={isAdding ? "Fill the Gap" : undefined}
+                description={isAdding ? "Pick one of these suggestions to add to your day." : undefined}
+            />
+
+            <ManualEditModal
+                isOpen={manualEditModalOpen}
+                onClose={() => setManualEditModalOpen(false)}
+                activity={activityToEdit}
+                currency={currency}
+                mode={isAdding ? "add" : "edit"}
+                onSave={handleManualEditSave}
+            />
+
+            <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+                <AlertDialogContent className="bg-white dark:bg-zinc-900 border-none rounded-2xl">
+                    <AlertDialogHeader>
+                        <AlertDialogTitle className="text-xl font-bold text-emerald-950">Remove Activity?</AlertDialogTitle>
+                        <AlertDialogDescription className="text-emerald-800/70">
+                            This will delete the activity completely. Are you sure you want to delete?
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel className="rounded-full border-none hover:bg-emerald-50 text-emerald-700">Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmDelete} className="bg-red-500 hover:bg-red-600 rounded-full px-6 font-bold">Remove</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+
+    return { handleActivityUpdate, handleAddActivity, handleMoveActivity, editingActivityId, dialogs };
+}
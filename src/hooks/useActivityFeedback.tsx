@@ -0,0 +1,118 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/lib/supabaseClient";
+import { Activity } from "@/components/ItineraryDisplay";
+import { ActivityDiscussionDialog } from "@/components/ActivityDiscussionDialog";
+import { CommentRow, VoteRow, VoteValue, summarizeFeedback } from "@/lib/feedback";
+
+interface UseActivityFeedbackOptions {
+    itineraryId: string;
+    userId: string | null; // Nothing is loaded until the user is known
+    canModerate: boolean; // Trip owners may delete anyone's comment
+}
+
+/**
+ * Comments and votes on the activities of a saved trip.
+ * Returns the counts per activity, a handler that opens an activity's thread, and the dialog to render.
+ */
+export function useActivityFeedback({ itineraryId, userId, canModerate }: UseActivityFeedbackOptions) {
+    const [comments, setComments] = useState<CommentRow[]>([]);
+    const [votes, setVotes] = useState<VoteRow[]>([]);
+    const [openActivity, setOpenActivity] = useState<Activity | null>(null);
+
+    const loadFeedback = useCallback(async () => {
+        const [commentsResult, votesResult] = await Promise.all([
+            supabase.from('activity_comments').select('*').eq('itinerary_id', itineraryId).order('created_at', { ascending: true }),
+            supabase.from('activity_votes').select('*').eq('itinerary_id', itineraryId),
+        ]);
+
+        if (commentsResult.error || votesResult.error) {
+            // Discussion is optional; the trip itself still works without the tables
+            console.error("Error fetching feedback:", commentsResult.error || votesResult.error);
+            return null;
+        }
+        return { comments: commentsResult.data as CommentRow[], votes: votesResult.data as VoteRow[] };
+    }, [itineraryId]);
+
+    const refresh = useCallback(async () => {
+        const data = await loadFeedback();
+        if (!data) return;
+        setComments(data.comments);
+        setVotes(data.votes);
+    }, [loadFeedback]);
+
+    useEffect(() => {
+        if (!userId) return;
+        loadFeedback().then((data) => {
+            if (!data) return;
+            setComments(data.comments);
+            setVotes(data.votes);
+        });
+    }, [userId, loadFeedback]);
+
+    const feedback = summarizeFeedback(comments, votes, userId);
+
+    // Clicking your current vote again takes it back
+    const handleVote = async (activityId: string, value: VoteValue) => {
+        if (!userId) return;
+
+        const { error } = feedback[activityId]?.myVote === value
+            ? await supabase.from('activity_votes').delete().match({ itinerary_id: itineraryId, activity_id: activityId, user_id: userId })
+            : await supabase.from('activity_votes').upsert({ itinerary_id: itineraryId, activity_id: activityId, user_id: userId, value, updated_at: new Date().toISOString() });
+
+        if (error) {
+            console.error('Error voting:', error);
+            toast.error('Failed to save your vote.');
+            return;
+        }
+        refresh();
+    };
+
+    const handleComment = async (activityId: string, body: string) => {
+        const { error } = await supabase
+            .from('activity_comments')
+            .insert({ itinerary_id: itineraryId, activity_id: activityId, body: body.trim() });
+
+        if (error) {
+            console.error('Error commenting:', error);
+            toast.error('Failed to post your comment.');
+            return false;
+        }
+        refresh();
+        return true;
+    };
+
+    const handleDeleteComment = async (comment: CommentRow) => {
+        const { error } = await supabase.from('activity_comments').delete().eq('id', comment.id);
+
+        if (error) {
+            console.error('Error deleting comment:', error);
+            toast.error('Failed to delete the comment.');
+            return;
+        }
+        refresh();
+    };
+
+    const openDiscussion = (activity: Activity) => {
+        setOpenActivity(activity);
+        refresh(); // Pick up what others wrote since the page loaded
+    };
+
+    const dialog = (
+        <ActivityDiscussionDialog
+            activity={openActivity}
+            onClose={() => setOpenActivity(null)}
+            comments={openActivity ? comments.filter((comment) => comment.activity_id === openActivity.id) : []}
+            feedback={openActivity ? feedback[openActivity.id] : undefined}
+            currentUserId={userId}
+            canModerate={canModerate}
+            onVote={(value) => openActivity && handleVote(openActivity.id, value)}
+            onComment={(body) => openActivity ? handleComment(openActivity.id, body) : Promise.resolve(false)}
+            onDeleteComment={handleDeleteComment}
+        />
+    );
+
+    return { feedback, openDiscussion, handleVote, dialog };
+}
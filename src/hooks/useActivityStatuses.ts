@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { ActivityStatus } from "@/lib/today";
+
+// The traveler's own done / skipped checklist for a trip. Kept on this device (not in Supabase) since it
+// is personal to whoever is holding the phone, and it has to work without a connection on the road.
+
+type Statuses = Record<string, ActivityStatus>;
+
+const storageKey = (tripId: string) => `pathfinder:today:${tripId}`;
+const CHANGE_EVENT = "pathfinder:today-changed"; // The storage event only fires in other tabs
+
+const EMPTY: Statuses = {};
+const parsed = new Map<string, Statuses>(); // Raw JSON -> object, so snapshots stay referentially stable
+
+function read(tripId: string): Statuses {
+    const raw = localStorage.getItem(storageKey(tripId));
+    if (!raw) return EMPTY;
+    if (!parsed.has(raw)) {
+        try {
+            parsed.set(raw, JSON.parse(raw));
+        } catch {
+            parsed.set(raw, EMPTY);
+        }
+    }
+    return parsed.get(raw) as Statuses;
+}
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener("storage", onChange);
+    window.addEventListener(CHANGE_EVENT, onChange);
+    return () => {
+        window.removeEventListener("storage", onChange);
+        window.removeEventListener(CHANGE_EVENT, onChange);
+    };
+};
+
+export function useActivityStatuses(tripId: string) {
+    const statuses = useSyncExternalStore(subscribe, () => read(tripId), () => EMPTY);
+
+    // null clears the status, e.g. to undo an accidental "done"
+    const setStatus = useCallback((activityId: string, status: ActivityStatus | null) => {
+        const next = { ...read(tripId) };
+        if (status) next[activityId] = status;
+        else delete next[activityId];
+
+        localStorage.setItem(storageKey(tripId), JSON.stringify(next));
+        window.dispatchEvent(new Event(CHANGE_EVENT));
+    }, [tripId]);
+
+    return { statuses, setStatus };
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { TripData, Hotel } from "@/components/TripView";
+import { DayPlan } from "@/components/ItineraryDisplay";
+import { Budget } from "@/components/BudgetBreakdown";
+import { BudgetCheck, shortenTrip } from "@/lib/budgetEnforcement";
+import { ActivityFeedback } from "@/lib/feedback";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+
+export interface BudgetActions {
+    onAdjustBudget: (newBudget: number) => void;
+    onOptimizeCheaper: () => void;
+    onShortenTrip: () => void;
+    isOptimizing: boolean;
+}
+
+interface UseBudgetActionsOptions {
+    tripData: TripData | null;
+    itinerary: DayPlan[] | null;
+    budget: Budget | null;
+    hotels: Hotel[];
+    feedback?: Record<string, ActivityFeedback>; // Saved trips: decides which day "Shorten Trip" drops
+    // Called with the next trip state after every action, plus a short description of it
+    onChange: (next: { tripData: TripData; itinerary: DayPlan[]; budget: Budget }, label: string) => void;
+}
+
+/**
+ * The Budget Alert's actions for a trip over its limit: raise the limit, swap in cheaper activities,
+ * or drop a day. Returns the props for TripView's `budgetActions`.
+ */
+export function useBudgetActions({ tripData, itinerary, budget, hotels, feedback, onChange }: UseBudgetActionsOptions): BudgetActions {
+    const [isOptimizing, setIsOptimizing] = useState(false);
+
+    const currency = budget?.currency || tripData?.currency || DEFAULT_CURRENCY;
+
+    const onAdjustBudget = (newBudget: number) => {
+        if (!tripData || !itinerary || !budget) return;
+        // Round up to whole units so the new limit covers the estimate
+        const limit = Math.ceil(newBudget);
+        onChange({ tripData: { ...tripData, budget: limit }, itinerary, budget }, "Update budget");
+        toast.success(`Budget updated to ${formatMoney(limit, currency)}.`);
+    };
+
+    const onOptimizeCheaper = async () => {
+        if (!tripData || !itinerary || !budget || isOptimizing) return;
+        setIsOptimizing(true);
+
+        try {
+            const response = await fetch("/api/optimize", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    destination: tripData.destination,
+                    travelers: tripData.travelers,
+                    currency,
+                    limit: tripData.budget,
+                    itinerary,
+                    budget,
+                    hotels,
+                }),
+            });
+
+            if (!response.ok) throw new Error("Failed to find cheaper options");
+
+            const data: { itinerary: DayPlan[]; budget: Budget; budgetCheck: BudgetCheck } = await response.json();
+            if (data.budgetCheck.changes.length === 0) {
+                toast.info("We couldn't find cheaper options for this trip. Try shortening it or raising the budget.");
+                return;
+            }
+
+            onChange({ tripData, itinerary: data.itinerary, budget: data.budget }, "Find cheaper options");
+            const saved = budget.total - data.budget.total;
+            const over = data.budgetCheck.estimated - data.budgetCheck.limit;
+            toast.success(`Swapped in cheaper options, saving ${formatMoney(saved, currency)}.`, {
+                description: over > 0 ? `Still ${formatMoney(over, currency)} over your budget.` : "The trip now fits your budget.",
+            });
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to find cheaper options.");
+        } finally {
+            setIsOptimizing(false);
+        }
+    };
+
+    const onShortenTrip = () => {
+        if (!tripData || !itinerary || !budget || itinerary.length <= 1) return;
+        const { removedDay, ...next } = shortenTrip({ tripData, itinerary, budget }, feedback);
+        onChange(next, `Remove day ${removedDay}`);
+        toast.success(`Removed day ${removedDay}. The trip is now ${next.tripData.days} days, saving ${formatMoney(budget.total - next.budget.total, currency)}.`);
+    };
+
+    return { onAdjustBudget, onOptimizeCheaper, onShortenTrip, isOptimizing };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+// Chromium-only event, not in the DOM typings
+interface BeforeInstallPromptEvent extends Event {
+    prompt: () => Promise<void>;
+    userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+// The browser's "install app" prompt, held back until the user asks for it.
+// canInstall stays false where the browser doesn't offer one (Safari: Share > Add to Home Screen) or once installed.
+export function useInstallPrompt() {
+    const [promptEvent, setPromptEvent] = useState<BeforeInstallPromptEvent | null>(null);
+
+    useEffect(() => {
+        const handleBeforeInstallPrompt = (e: Event) => {
+            e.preventDefault();
+            setPromptEvent(e as BeforeInstallPromptEvent);
+        };
+        const handleInstalled = () => setPromptEvent(null);
+
+        window.addEventListener("beforeinstallprompt", handleBeforeInstallPrompt);
+        window.addEventListener("appinstalled", handleInstalled);
+        return () => {
+            window.removeEventListener("beforeinstallprompt", handleBeforeInstallPrompt);
+            window.removeEventListener("appinstalled", handleInstalled);
+        };
+    }, []);
+
+    const install = useCallback(async () => {
+        if (!promptEvent) return false;
+        await promptEvent.prompt();
+        const { outcome } = await promptEvent.userChoice;
+        setPromptEvent(null); // Each event can only prompt once
+        return outcome === "accepted";
+    }, [promptEvent]);
+
+    return { canInstall: promptEvent !== null, install };
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+const TICK = 60 * 1000;
+
+const subscribe = (onChange: () => void) => {
+    const interval = setInterval(onChange, TICK);
+    return () => clearInterval(interval);
+};
+
+// The current time, updated once a minute (snapshots are whole minutes, so nothing re-renders in between)
+export function useNow(): Date {
+    const minute = useSyncExternalStore(subscribe, () => Math.floor(Date.now() / TICK), () => 0);
+    return new Date(minute * TICK);
+}
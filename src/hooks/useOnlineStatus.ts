@@ -0,0 +1,17 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener("online", onChange);
+    window.addEventListener("offline", onChange);
+    return () => {
+        window.removeEventListener("online", onChange);
+        window.removeEventListener("offline", onChange);
+    };
+};
+
+// Whether the browser thinks it has a connection; the server render assumes it does
+export function useOnlineStatus() {
+    return useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
+}
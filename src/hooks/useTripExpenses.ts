@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { supabase } from "@/lib/supabaseClient";
+import { ExpenseRow, NewExpense } from "@/lib/expenses";
+
+interface UseTripExpensesOptions {
+    itineraryId: string;
+    userId: string | null; // Nothing is loaded until the user is known
+}
+
+/**
+ * What the group actually spent on a saved trip. Expenses are written straight to the database,
+ * not kept with the unsaved itinerary edits, so everyone sees them as soon as they are logged.
+ */
+export function useTripExpenses({ itineraryId, userId }: UseTripExpensesOptions) {
+    const [expenses, setExpenses] = useState<ExpenseRow[]>([]);
+
+    const loadExpenses = useCallback(async () => {
+        const { data, error } = await supabase
+            .from('trip_expenses')
+            .select('*')
+            .eq('itinerary_id', itineraryId)
+            .order('spent_on', { ascending: false })
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            // Expense tracking is optional; the trip itself still works without the table
+            console.error("Error fetching expenses:", error);
+            return null;
+        }
+        return data as ExpenseRow[];
+    }, [itineraryId]);
+
+    const refresh = useCallback(async () => {
+        const data = await loadExpenses();
+        if (data) setExpenses(data);
+    }, [loadExpenses]);
+
+    useEffect(() => {
+        if (!userId) return;
+        loadExpenses().then((data) => {
+            if (data) setExpenses(data);
+        });
+    }, [userId, loadExpenses]);
+
+    const addExpense = async (expense: NewExpense) => {
+        const { error } = await supabase
+            .from('trip_expenses')
+            .insert({ itinerary_id: itineraryId, ...expense, description: expense.description.trim() });
+
+        if (error) {
+            console.error('Error logging expense:', error);
+            toast.error('Failed to log the expense.');
+            return false;
+        }
+        refresh();
+        return true;
+    };
+
+    const deleteExpense = async (expense: ExpenseRow) => {
+        const { error } = await supabase.from('trip_expenses').delete().eq('id', expense.id);
+
+        if (error) {
+            console.error('Error deleting expense:', error);
+            toast.error('Failed to delete the expense.');
+            return;
+        }
+        refresh();
+    };
+
+    return { expenses, addExpense, deleteExpense, refresh };
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PresenceUser, SavedBy, TripChannel, getRealtimeTransport, presenceColor } from "@/lib/realtime";
+
+interface UseTripRealtimeOptions {
+    tripId: string;
+    user: { id: string; email: string } | null; // Nothing is joined until the user is known
+    editingActivityId: string | null;
+    onRemoteSave: (by: SavedBy) => void;
+}
+
+/**
+ * Joins the live channel for a saved trip.
+ * Returns the other people viewing it (with the activity each is editing, if any) and a way to tell them about a save.
+ */
+export function useTripRealtime({ tripId, user, editingActivityId, onRemoteSave }: UseTripRealtimeOptions) {
+    const [present, setPresent] = useState<PresenceUser[]>([]);
+    const channelRef = useRef<TripChannel | null>(null);
+
+    // Always call the latest handler without re-joining the channel when it changes
+    const onRemoteSaveRef = useRef(onRemoteSave);
+    useEffect(() => {
+        onRemoteSaveRef.current = onRemoteSave;
+    }, [onRemoteSave]);
+
+    const userId = user?.id;
+    const email = user?.email;
+
+    useEffect(() => {
+        if (!tripId || !userId) return;
+
+        const channel = getRealtimeTransport()(tripId, {
+            onPresence: setPresent,
+            onSaved: (by) => {
+                if (by.userId !== userId) onRemoteSaveRef.current(by);
+            },
+        });
+        channelRef.current = channel;
+
+        return () => {
+            channel.close();
+            channelRef.current = null;
+            setPresent([]);
+        };
+    }, [tripId, userId]);
+
+    // Re-announce whenever what we're editing changes
+    useEffect(() => {
+        if (!userId || !email) return;
+        channelRef.current?.track({ userId, email, color: presenceColor(userId), editingActivityId });
+    }, [tripId, userId, email, editingActivityId]);
+
+    const notifySaved = useCallback(() => {
+        if (userId && email) channelRef.current?.notifySaved({ userId, email });
+    }, [userId, email]);
+
+    const others = present.filter((person) => person.userId !== userId);
+
+    return { others, notifySaved };
+}
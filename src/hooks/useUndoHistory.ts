@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+export interface HistoryEntry<T> {
+    label: string; // e.g. "Remove activity", shown in tooltips and toasts
+    state: T; // Snapshot to go back to
+}
+
+// Serializable so the preview can keep it in localStorage next to the draft
+export interface HistoryStacks<T> {
+    past: HistoryEntry<T>[];
+    future: HistoryEntry<T>[];
+}
+
+const MAX_ENTRIES = 30; // Each entry is a full itinerary snapshot; keeps localStorage well under quota
+
+const isTypingTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+interface UseUndoHistoryOptions<T> {
+    current: T | null;
+    // Put a snapshot back in place after undo / redo
+    restore: (state: T) => void;
+}
+
+/**
+ * Snapshot based undo / redo. Call `record` with the state from before each change;
+ * Ctrl+Z / Cmd+Z undoes and Ctrl+Shift+Z / Ctrl+Y redoes while focus isn't in a text field.
+ */
+export function useUndoHistory<T>({ current, restore }: UseUndoHistoryOptions<T>) {
+    const [stacks, setStacks] = useState<HistoryStacks<T>>({ past: [], future: [] });
+
+    const record = useCallback((label: string, before: T) => {
+        setStacks((prev) => ({
+            past: [...prev.past, { label, state: before }].slice(-MAX_ENTRIES),
+            future: [], // A new change forks the timeline
+        }));
+    }, []);
+
+    const undo = useCallback(() => {
+        const entry = stacks.past[stacks.past.length - 1];
+        if (!entry || current === null) return;
+
+        setStacks({
+            past: stacks.past.slice(0, -1),
+            future: [...stacks.future, { label: entry.label, state: current }],
+        });
+        restore(entry.state);
+        toast.info(`Undid: ${entry.label}`);
+    }, [stacks, current, restore]);
+
+    const redo = useCallback(() => {
+        const entry = stacks.future[stacks.future.length - 1];
+        if (!entry || current === null) return;
+
+        setStacks({
+            past: [...stacks.past, { label: entry.label, state: current }],
+            future: stacks.future.slice(0, -1),
+        });
+        restore(entry.state);
+        toast.info(`Redid: ${entry.label}`);
+    }, [stacks, current, restore]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isTypingTarget(e.target)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [undo, redo]);
+
+    return {
+        stacks,
+        // Replace both stacks, e.g. when rehydrating from storage
+        reset: setStacks,
+        record,
+        undo,
+        redo,
+        undoLabel: stacks.past[stacks.past.length - 1]?.label ?? null,
+        redoLabel: stacks.future[stacks.future.length - 1]?.label ?? null,
+    };
+}
@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { addDays, format, isValid, parseISO } from "date-fns";
+import { alternativesSchema, cheaperSchema, itinerarySchema } from "@/lib/aiSchemas";
+import { convertOffline, formatMoney } from "@/lib/currency";
+import { formatTimeOfDay, parseTimeOfDay } from "@/lib/time";
+import type { ActivityType } from "@/components/ItineraryDisplay";
+
+// Answers for the mock AI provider (AI_PROVIDER=mock). Built from the request alone, so the same
+// input always gives the same trip, and shaped to pass the same schemas as a real model response.
+
+type GeneratedTrip = z.infer<typeof itinerarySchema>;
+type GeneratedActivity = z.infer<typeof alternativesSchema>["alternatives"][number];
+
+const PLACES = ["Old Town", "Harbour", "Botanical Garden", "Castle Hill", "Art Quarter", "Riverside", "Central Market", "Temple District", "Lookout Point", "Royal Palace"];
+
+interface Slot {
+    time: string;
+    type: ActivityType;
+    name: (destination: string, place: string) => string;
+    share: number; // Fraction of one traveler's daily budget
+    per: "person" | "group";
+}
+
+const SLOTS: Record<"Relaxed" | "Moderate" | "Packed", Slot[]> = {
+    Relaxed: [
+        { time: "10:00 AM", type: "sight", name: (d, place) => `Stroll around ${d} ${place}`, share: 0, per: "group" },
+        { time: "01:00 PM", type: "meal", name: (d) => `Lunch at a ${d} café`, share: 0.08, per: "person" },
+        { time: "03:00 PM", type: "rest", name: () => "Downtime at the hotel", share: 0, per: "group" },
+        { time: "07:00 PM", type: "meal", name: (d) => `Dinner with local ${d} specialities`, share: 0.12, per: "person" },
+    ],
+    Moderate: [
+        { time: "09:00 AM", type: "sight", name: (d, place) => `Walk through ${d} ${place}`, share: 0, per: "group" },
+        { time: "11:00 AM", type: "sight", name: (d, place) => `${place} Museum of ${d}`, share: 0.06, per: "person" },
+        { time: "01:00 PM", type: "meal", name: (d) => `Lunch at a ${d} food market`, share: 0.08, per: "person" },
+        { time: "03:30 PM", type: "sight", name: (d, place) => `${d} ${place} viewpoint`, share: 0.04, per: "person" },
+        { time: "07:00 PM", type: "meal", name: (d) => `Dinner with local ${d} specialities`, share: 0.12, per: "person" },
+    ],
+    Packed: [
+        { time: "08:00 AM", type: "sight", name: (d, place) => `Early walk through ${d} ${place}`, share: 0, per: "group" },
+        { time: "10:00 AM", type: "sight", name: (d, place) => `${place} Museum of ${d}`, share: 0.06, per: "person" },
+        { time: "12:30 PM", type: "meal", name: (d) => `Lunch at a ${d} food market`, share: 0.08, per: "person" },
+        { time: "02:00 PM", type: "sight", name: (d, place) => `Guided tour of ${d} ${place}`, share: 0.08, per: "person" },
+        { time: "04:30 PM", type: "custom", name: (d) => `Cooking class in ${d}`, share: 0.07, per: "person" },
+        { time: "07:00 PM", type: "meal", name: (d) => `Dinner with local ${d} specialities`, share: 0.12, per: "person" },
+        { time: "09:00 PM", type: "sight", name: (d) => `${d} by night`, share: 0, per: "group" },
+    ],
+};
+
+const ARRIVAL: Slot = { time: "10:00 AM", type: "transit", name: () => "Transfer from the airport to the hotel", share: 0.05, per: "group" };
+
+// Two significant figures, whole numbers: 12345 -> 12000, 7.3 -> 7
+function roundAmount(amount: number): number {
+    if (amount < 10) return Math.round(amount);
+    const magnitude = Math.pow(10, Math.floor(Math.log10(amount)) - 1);
+    return Math.round(amount / magnitude) * magnitude;
+}
+
+interface TripRequest {
+    destination: string;
+    days: number;
+    budget: number;
+    travelers: number;
+    currency: string;
+    pace?: string;
+    dateRange?: { from?: string; to?: string };
+}
+
+export function itineraryFixture({ destination, days, budget, travelers, currency, pace, dateRange }: TripRequest): GeneratedTrip {
+    const slots = SLOTS[pace as keyof typeof SLOTS] || SLOTS.Moderate;
+    const perPersonPerDay = budget / Math.max(1, travelers) / Math.max(1, days);
+    const start = dateRange?.from ? parseISO(dateRange.from) : null;
+
+    const itinerary = Array.from({ length: days }, (_, index) => {
+        const place = PLACES[index % PLACES.length];
+        // Arrival day swaps the first stop for the airport transfer
+        const daySlots = index === 0 ? [ARRIVAL, ...slots.slice(1)] : slots;
+
+        return {
+            day: index + 1,
+            date: start && isValid(start) ? format(addDays(start, index), "EEEE, MMMM d, yyyy") : `Day ${index + 1}`,
+            activities: daySlots.map((slot) => ({
+                type: slot.type,
+                name: slot.name(destination, place),
+                description: `A ${slot.type === "meal" ? "well-loved local spot" : "highlight"} of ${destination}, picked for day ${index + 1}.`,
+                time: slot.time,
+                cost: {
+                    amount: roundAmount(perPersonPerDay * slot.share * (slot.per === "group" ? travelers : 1)),
+                    currency,
+                    per: slot.per,
+                    estimated: true,
+                },
+            })),
+        };
+    });
+
+    const spent = (types: ActivityType[]) => itinerary
+        .flatMap((day) => day.activities)
+        .filter((activity) => types.includes(activity.type))
+        .reduce((sum, activity) => sum + activity.cost.amount * (activity.cost.per === "person" ? travelers : 1), 0);
+
+    const nightly = roundAmount(budget / Math.max(1, days) * 0.3);
+    const breakdown = {
+        accommodation: nightly * Math.max(1, days - 1),
+        food: spent(["meal"]),
+        activities: spent(["sight", "rest", "custom"]),
+        transport: spent(["transit"]) + roundAmount(budget * 0.03),
+        misc: roundAmount(budget * 0.03),
+    };
+
+    return {
+        itinerary,
+        budget: { ...breakdown, total: Object.values(breakdown).reduce((sum, value) => sum + value, 0), currency },
+        weather: { summary: "Mild with sunny spells and the odd shower", temperature: "18-24°C" },
+        hotels: [
+            { category: "Best Value", factor: 1, name: `${destination} Central Hotel` },
+            { category: "Budget Friendly", factor: 0.6, name: `${destination} Backpackers Inn` },
+            { category: "Luxury / Treat", factor: 1.8, name: `Grand ${destination} Palace` },
+        ].map(({ category, factor, name }, index) => ({
+            name,
+            address: `${10 + index * 12} ${PLACES[index]} Road, ${destination}`,
+            description: `A ${category.toLowerCase()} stay close to ${destination}'s main sights.`,
+            price_per_night: formatMoney(roundAmount(nightly * factor), currency),
+            currency,
+            booking_url_query: `${name} ${destination}`,
+            category,
+        })),
+    };
+}
+
+const ALTERNATIVES: Record<ActivityType, { name: (destination: string) => string; usd: number; per: "person" | "group" }[]> = {
+    sight: [
+        { name: (d) => `${d} History Museum`, usd: 12, per: "person" },
+        { name: (d) => `Free walking tour of ${d}`, usd: 0, per: "group" },
+        { name: (d) => `${d} Botanical Garden`, usd: 5, per: "person" },
+        { name: (d) => `Sunset viewpoint over ${d}`, usd: 0, per: "group" },
+    ],
+    meal: [
+        { name: (d) => `Street food crawl in ${d}`, usd: 8, per: "person" },
+        { name: (d) => `Family-run ${d} restaurant`, usd: 15, per: "person" },
+        { name: (d) => `${d} rooftop bistro`, usd: 30, per: "person" },
+        { name: (d) => `Market stalls of ${d}`, usd: 6, per: "person" },
+    ],
+    transit: [
+        { name: (d) => `Public transport across ${d}`, usd: 3, per: "person" },
+        { name: (d) => `Taxi across ${d}`, usd: 15, per: "group" },
+        { name: (d) => `Bike rental in ${d}`, usd: 8, per: "person" },
+        { name: (d) => `Walk through ${d}`, usd: 0, per: "group" },
+    ],
+    rest: [
+        { name: () => "Downtime at the hotel", usd: 0, per: "group" },
+        { name: (d) => `${d} day spa`, usd: 40, per: "person" },
+        { name: (d) => `Café break in ${d}`, usd: 5, per: "person" },
+        { name: (d) => `Park picnic in ${d}`, usd: 6, per: "person" },
+    ],
+    custom: [
+        { name: (d) => `Cooking class in ${d}`, usd: 35, per: "person" },
+        { name: (d) => `${d} craft workshop`, usd: 25, per: "person" },
+        { name: (d) => `Live music in ${d}`, usd: 15, per: "person" },
+        { name: (d) => `Photo walk around ${d}`, usd: 0, per: "group" },
+    ],
+};
+
+interface AlternativesRequest {
+    destination: string;
+    currency: string;
+    times: string[]; // One per alternative
+    type?: ActivityType; // Keep this type (regenerate); otherwise a mix (suggest)
+    exclude?: string[]; // Names already in the day
+}
+
+export function alternativesFixture({ destination, currency, times, type, exclude = [] }: AlternativesRequest): z.infer<typeof alternativesSchema> {
+    const types: ActivityType[] = type ? [type] : ["sight", "meal", "custom"];
+    const taken = new Set(exclude.map((name) => name.toLowerCase()));
+    // Rank by rank across the types, so a mixed suggestion isn't three sights
+    const candidates = [0, 1, 2, 3]
+        .flatMap((rank) => types.map((candidateType) => ({ ...ALTERNATIVES[candidateType][rank], type: candidateType })))
+        .map((option) => ({ ...option, name: option.name(destination) }));
+    const fresh = candidates.filter((option) => !taken.has(option.name.toLowerCase()));
+    const pool = fresh.length > 0 ? fresh : candidates;
+
+    return {
+        alternatives: times.map((time, index): GeneratedActivity => {
+            const option = pool[index % pool.length];
+            return {
+                type: option.type,
+                name: option.name,
+                description: `A popular pick in ${destination}.`,
+                time,
+                cost: { amount: roundAmount(convertOffline(option.usd, "USD", currency)), currency, per: option.per, estimated: true },
+            };
+        }),
+    };
+}
+
+interface CheaperRequest {
+    type: ActivityType;
+    name: string;
+    time: string;
+    maxAmount: number;
+}
+
+// The cheapest alternative of the same type for each activity, whether or not it fits under maxAmount
+export function cheaperFixture({ destination, currency, requests }: { destination: string; currency: string; requests: CheaperRequest[] }): z.infer<typeof cheaperSchema> {
+    return {
+        replacements: requests.map(({ type, name, time }, index) => {
+            const options = ALTERNATIVES[type]
+                .map((option) => ({ ...option, name: option.name(destination) }))
+                .filter((option) => option.name.toLowerCase() !== name.toLowerCase())
+                .sort((a, b) => a.usd - b.usd);
+            const option = options[0];
+            return {
+                replaces: index,
+                type,
+                name: option.name,
+                description: `A budget-friendly pick in ${destination}.`,
+                time,
+                cost: { amount: roundAmount(convertOffline(option.usd, "USD", currency)), currency, per: option.per, estimated: true },
+            };
+        }),
+    };
+}
+
+// `count` start times an hour clear of what's already planned (repeating the first when the day is full)
+export function freeTimes(planned: (string | undefined)[], count: number): string[] {
+    const busy = planned.map(parseTimeOfDay).filter((time): time is number => time !== null);
+    const free = [10, 12, 15, 17, 20, 9, 14, 19, 21]
+        .map((hour) => hour * 60)
+        .filter((time) => busy.every((other) => Math.abs(other - time) >= 60));
+    return Array.from({ length: count }, (_, index) => formatTimeOfDay(free[index] ?? free[0] ?? 15 * 60));
+}
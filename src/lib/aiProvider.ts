@@ -0,0 +1,118 @@
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { LanguageModel, simulateReadableStream } from "ai";
+import type { LanguageModelV3, LanguageModelV3StreamPart } from "@ai-sdk/provider";
+
+// The model behind the AI routes, chosen with AI_PROVIDER:
+//   gemini (default)  Google Gemini; needs GOOGLE_GENERATIVE_AI_API_KEY
+//   openai            any OpenAI-compatible API; OPENAI_COMPATIBLE_BASE_URL (default OpenAI) and OPENAI_COMPATIBLE_API_KEY
+//   ollama            a local Ollama server; OLLAMA_BASE_URL (default http://localhost:11434/v1)
+//   mock              deterministic fixtures, no network or key needed
+// AI_MODEL overrides the provider's default model.
+
+export interface AiProvider {
+    name: string;
+    // `fixture` is what the mock answers with; real providers ignore it
+    languageModel: (fixture: () => unknown) => LanguageModel;
+    configError: () => string | null; // Missing settings, as a message for the API response
+}
+
+const modelId = (fallback: string) => process.env.AI_MODEL || fallback;
+
+export const geminiProvider: AiProvider = {
+    name: "gemini",
+    languageModel: () => google(modelId("gemini-2.5-flash")),
+    configError: () => {
+        const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+        return !apiKey || apiKey === "your_api_key_here" ? "Invalid API Key: Please check .env.local" : null;
+    },
+};
+
+export const openAiCompatibleProvider: AiProvider = {
+    name: "openai",
+    languageModel: () => createOpenAICompatible({
+        name: "openai",
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || "https://api.openai.com/v1",
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        supportsStructuredOutputs: true,
+    })(modelId("gpt-4o-mini")),
+    configError: () => process.env.OPENAI_COMPATIBLE_API_KEY ? null : "Missing OPENAI_COMPATIBLE_API_KEY: Please check .env.local",
+};
+
+// Ollama serves an OpenAI-compatible API under /v1 and needs no key
+export const ollamaProvider: AiProvider = {
+    name: "ollama",
+    languageModel: () => createOpenAICompatible({
+        name: "ollama",
+        baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+        supportsStructuredOutputs: true,
+    })(modelId("llama3.1")),
+    configError: () => null,
+};
+
+const MOCK_CHUNK_SIZE = 200;
+const MOCK_CHUNK_DELAY_MS = 30; // Slow enough for the streaming preview to visibly fill in
+
+// Answers every call with the fixture as JSON text, so generateObject / streamObject still parse and
+// validate it against the route's schema exactly as they would a real response
+function mockLanguageModel(fixture: () => unknown): LanguageModelV3 {
+    const usage = {
+        inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+        outputTokens: { total: 0, text: 0, reasoning: 0 },
+    };
+    const finishReason = { unified: "stop", raw: "stop" } as const;
+
+    return {
+        specificationVersion: "v3",
+        provider: "mock",
+        modelId: "fixtures",
+        supportedUrls: {},
+        doGenerate: async () => ({
+            content: [{ type: "text", text: JSON.stringify(fixture()) }],
+            finishReason,
+            usage,
+            warnings: [],
+        }),
+        doStream: async () => {
+            const chunks = JSON.stringify(fixture()).match(new RegExp(`[\\s\\S]{1,${MOCK_CHUNK_SIZE}}`, "g")) ?? [];
+            return {
+                stream: simulateReadableStream<LanguageModelV3StreamPart>({
+                    chunks: [
+                        { type: "stream-start", warnings: [] },
+                        { type: "text-start", id: "0" },
+                        ...chunks.map((delta) => ({ type: "text-delta" as const, id: "0", delta })),
+                        { type: "text-end", id: "0" },
+                        { type: "finish", finishReason, usage },
+                    ],
+                    chunkDelayInMs: MOCK_CHUNK_DELAY_MS,
+                }),
+            };
+        },
+    };
+}
+
+export const mockProvider: AiProvider = {
+    name: "mock",
+    languageModel: mockLanguageModel,
+    configError: () => null,
+};
+
+const PROVIDERS: Record<string, AiProvider> = {
+    gemini: geminiProvider,
+    openai: openAiCompatibleProvider,
+    ollama: ollamaProvider,
+    mock: mockProvider,
+};
+
+export function getAiProvider(): AiProvider {
+    const name = (process.env.AI_PROVIDER || "gemini").toLowerCase();
+    const provider = PROVIDERS[name];
+    if (!provider) {
+        return {
+            name,
+            languageModel: () => { throw new Error(`Unknown AI_PROVIDER "${name}"`); },
+            configError: () => `Unknown AI_PROVIDER "${name}": use ${Object.keys(PROVIDERS).join(", ")}`,
+        };
+    }
+    return provider;
+}
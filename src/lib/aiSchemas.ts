@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+// Schemas the AI routes ask the model to fill. Kept in one place so generation
+// and single-activity regeneration always agree on what an activity looks like.
+
+export const activityCostSchema = z.object({
+    amount: z.number(), // Plain number in the trip currency, 0 for free
+    currency: z.string(),
+    per: z.enum(["person", "group"]),
+    estimated: z.boolean(),
+});
+
+export const activitySchema = z.object({
+    type: z.enum(["sight", "meal", "transit", "rest", "custom"]),
+    name: z.string(),
+    description: z.string(),
+    time: z.string(),
+    cost: activityCostSchema,
+});
+
+export const dayPlanSchema = z.object({
+    day: z.number(),
+    date: z.string(),
+    activities: z.array(activitySchema), // In visiting order, length depends on pace
+});
+
+export const budgetSchema = z.object({
+    accommodation: z.number(),
+    food: z.number(),
+    activities: z.number(),
+    transport: z.number(),
+    misc: z.number(),
+    total: z.number(),
+    currency: z.string(),
+});
+
+export const weatherSchema = z.object({
+    summary: z.string(), // e.g. "Sunny and warm"
+    temperature: z.string(), // e.g. "25-30°C"
+});
+
+export const hotelSchema = z.object({
+    name: z.string(),
+    address: z.string(),
+    description: z.string(),
+    price_per_night: z.string(),
+    currency: z.string(),
+    booking_url_query: z.string(),
+    category: z.string(), // e.g. "Best Value", "Budget", "Luxury"
+});
+
+// Schema for the response structure we want the AI to return
+export const itinerarySchema = z.object({
+    itinerary: z.array(dayPlanSchema),
+    budget: budgetSchema,
+    weather: weatherSchema,
+    hotels: z.array(hotelSchema),
+});
+
+// Replacement days for the ones a generation got wrong (see tripValidation)
+export const daysSchema = z.object({
+    days: z.array(dayPlanSchema),
+});
+
+export const alternativesSchema = z.object({
+    alternatives: z.array(activitySchema),
+});
+
+// Cheaper stand-ins for the priciest activities when a trip is over budget (see budgetEnforcement)
+export const cheaperSchema = z.object({
+    replacements: z.array(activitySchema.extend({
+        replaces: z.number(), // Index of the activity it replaces in the request
+    })),
+});
+
+// Prompt lines explaining the structured cost fields, shared by both routes
+export const costInstructions = (currencyCode: string) => `
+      COST FORMAT (every activity has a structured "cost"):
+        - amount: a SINGLE plain number in ${currencyCode}, no symbols or separators. Use 0 for free activities. NEVER a range.
+        - currency: "${currencyCode}"
+        - per: "person" when the price is paid by each traveler (tickets, meals), "group" when shared (taxi, private guide, free).
+        - estimated: true when the price is your estimate, false only for a fixed published price.`;
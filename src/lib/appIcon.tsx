@@ -0,0 +1,31 @@
+import { ImageResponse } from "next/og";
+
+// PNG versions of public/icon.svg, drawn at request time. Install prompts and home screens need
+// raster icons at fixed sizes; `maskable` fills the whole square so launchers can crop it to any shape.
+export function renderAppIcon(size: number, { maskable = false }: { maskable?: boolean } = {}) {
+    // Maskable icons keep everything important inside the central 80% "safe zone"
+    const mark = maskable ? size * 0.8 : size;
+
+    return new ImageResponse(
+        (
+            <div
+                style={{
+                    width: "100%",
+                    height: "100%",
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    background: "#0d9488",
+                    borderRadius: maskable ? 0 : size * 0.22,
+                }}
+            >
+                <svg width={mark} height={mark} viewBox="0 0 512 512">
+                    <circle cx="256" cy="256" r="150" fill="none" stroke="#ffffff" strokeWidth="28" />
+                    <path d="M322 190 L282 282 L190 322 L230 230 Z" fill="#f97316" />
+                    <circle cx="256" cy="256" r="16" fill="#ffffff" />
+                </svg>
+            </div>
+        ),
+        { width: size, height: size }
+    );
+}
@@ -0,0 +1,209 @@
+import { addDays, format, isValid, parseISO } from "date-fns";
+import type { Activity, DayPlan } from "@/components/ItineraryDisplay";
+import type { Budget } from "@/components/BudgetBreakdown";
+import type { TripData } from "@/components/TripView";
+import type { GeneratedTrip } from "@/lib/generationStream";
+import type { ActivityFeedback } from "@/lib/feedback";
+import { type CostCategory, adjustBudget, costCategory, costTotal, formatCost, parseLegacyCost } from "@/lib/cost";
+import { formatMoney } from "@/lib/currency";
+
+// Holding a trip to the budget limit chosen in the form. After generation, depending on the mode:
+//   strict:   the priciest items are swapped for cheaper ones until the plan fits (or we run out of tries)
+//   advisory: the plan is left alone and the overspend is only reported
+// Later, the Budget Alert runs the same swaps on demand (/api/optimize) or shortens the trip.
+
+export type BudgetMode = "strict" | "advisory";
+export const DEFAULT_BUDGET_MODE: BudgetMode = "strict";
+
+export const BUDGET_MODE_LABELS: Record<BudgetMode, string> = {
+    strict: "Strict",
+    advisory: "Advisory",
+};
+
+// What the done event reports about the budget
+export interface BudgetCheck {
+    mode: BudgetMode;
+    limit: number;
+    estimated: number; // After any swaps
+    changes: string[]; // One line per swap strict mode made
+}
+
+export interface CheaperRequest {
+    activity: Activity;
+    dayNumber: number;
+    maxAmount: number; // Same `per` as the activity's cost
+}
+
+const MAX_ROUNDS = 2;
+const MAX_SWAPS_PER_ROUND = 6;
+const ITEMIZED: CostCategory[] = ["activities", "food", "transport"];
+
+/**
+ * The trip's cost per category. Activities, food and transport use the itemized activity costs, or the
+ * model's category estimate when that is higher (it also covers unlisted breakfasts, snacks and rides).
+ */
+export function estimateSpend({ itinerary, budget }: Pick<GeneratedTrip, "itinerary" | "budget">, travelers: number): Budget {
+    const itemized: Record<CostCategory, number> = { activities: 0, food: 0, transport: 0 };
+    itinerary.forEach((day) => day.activities.forEach((activity) => {
+        itemized[costCategory(activity.type)] += costTotal(activity.cost, travelers);
+    }));
+
+    const spend = { ...budget };
+    ITEMIZED.forEach((category) => {
+        spend[category] = Math.max(budget[category] || 0, itemized[category]);
+    });
+    spend.total = spend.accommodation + spend.food + spend.activities + spend.transport + spend.misc;
+    return spend;
+}
+
+// Most expensive first, until swapping them could plausibly cover the overspend
+function pickCandidates(trip: Pick<GeneratedTrip, "itinerary">, travelers: number, over: number, tried: Set<string>): CheaperRequest[] {
+    const ranked = trip.itinerary
+        .flatMap((day) => day.activities.map((activity) => ({ activity, dayNumber: day.day, total: costTotal(activity.cost, travelers) })))
+        .filter(({ activity, total }) => total > 0 && !tried.has(activity.id))
+        .sort((a, b) => b.total - a.total);
+
+    const picked: CheaperRequest[] = [];
+    let covered = 0;
+    for (const { activity, dayNumber, total } of ranked) {
+        if (picked.length >= MAX_SWAPS_PER_ROUND || covered >= over) break;
+        picked.push({ activity, dayNumber, maxAmount: Math.floor(activity.cost.amount / 2) });
+        covered += total / 2; // A swap is asked to at least halve the price
+    }
+    return picked;
+}
+
+/**
+ * Check a generated trip against `limit` and, in strict mode, bring it under: first by budgeting the
+ * cheapest recommended hotel, then by asking `findCheaper` for replacements of the priciest activities.
+ * `findCheaper` returns one normalized activity (or null) per request, in order.
+ */
+export async function enforceBudget<T extends Pick<GeneratedTrip, "itinerary" | "budget" | "hotels">>(
+    trip: T,
+    { mode, limit, travelers, currency }: { mode: BudgetMode; limit: number; travelers: number; currency: string },
+    findCheaper: (requests: CheaperRequest[]) => Promise<(Activity | null)[]>,
+): Promise<{ trip: T; check: BudgetCheck }> {
+    const changes: string[] = [];
+    let current = trip;
+    let spend = estimateSpend(current, travelers);
+
+    if (mode === "strict" && spend.total > limit) {
+        // The stay is usually the biggest item; the cheapest recommended hotel is the first saving
+        const nights = Math.max(1, current.itinerary.length - 1);
+        const cheapest = current.hotels
+            .map((hotel) => ({ hotel, nightly: parseLegacyCost(hotel.price_per_night, currency).amount }))
+            .filter(({ nightly }) => nightly > 0)
+            .sort((a, b) => a.nightly - b.nightly)[0];
+        if (cheapest && cheapest.nightly * nights < current.budget.accommodation) {
+            const saving = current.budget.accommodation - cheapest.nightly * nights;
+            current = { ...current, budget: { ...current.budget, accommodation: cheapest.nightly * nights, total: current.budget.total - saving } };
+            changes.push(`Budgeted the stay at ${cheapest.hotel.name} (${formatMoney(cheapest.nightly, currency)} / night), saving ${formatMoney(saving, currency)}.`);
+            spend = estimateSpend(current, travelers);
+        }
+
+        const tried = new Set<string>();
+        for (let round = 0; round < MAX_ROUNDS && spend.total > limit; round++) {
+            const requests = pickCandidates(current, travelers, spend.total - limit, tried);
+            if (requests.length === 0) break;
+            requests.forEach(({ activity }) => tried.add(activity.id));
+
+            let replacements: (Activity | null)[] = [];
+            try {
+                replacements = await findCheaper(requests);
+            } catch (error) {
+                console.error("Finding cheaper activities failed:", error);
+                break;
+            }
+
+            requests.forEach(({ activity, dayNumber }, index) => {
+                const replacement = replacements[index];
+                const before = costTotal(activity.cost, travelers);
+                if (!replacement || costTotal(replacement.cost, travelers) >= before) return;
+
+                const swapped = { ...replacement, time: activity.time }; // Keep the day's schedule
+                tried.add(swapped.id);
+                let budget = adjustBudget(current.budget, -before, costCategory(activity.type));
+                budget = adjustBudget(budget, costTotal(swapped.cost, travelers), costCategory(swapped.type));
+
+                current = {
+                    ...current,
+                    budget,
+                    itinerary: current.itinerary.map((day) => day.day !== dayNumber ? day : {
+                        ...day,
+                        activities: day.activities.map((candidate) => candidate.id === activity.id ? swapped : candidate),
+                    }),
+                };
+                changes.push(`Day ${dayNumber}: swapped ${activity.name} (${formatCost(activity.cost)}) for ${swapped.name} (${formatCost(swapped.cost)}).`);
+            });
+            spend = estimateSpend(current, travelers);
+        }
+    }
+
+    // The budget shown is never lower than what the listed activities add up to
+    return {
+        trip: { ...current, budget: { ...spend, currency: current.budget.currency } },
+        check: { mode, limit, estimated: spend.total, changes },
+    };
+}
+
+// Thumbs up minus thumbs down over the day's activities
+const dayRating = (day: DayPlan, feedback: Record<string, ActivityFeedback>) =>
+    day.activities.reduce((sum, activity) => sum + (feedback[activity.id]?.up || 0) - (feedback[activity.id]?.down || 0), 0);
+
+const dayCost = (day: DayPlan, travelers: number) =>
+    day.activities.reduce((sum, activity) => sum + costTotal(activity.cost, travelers), 0);
+
+const nightsFor = (days: number) => Math.max(1, days - 1);
+
+/**
+ * The trip one day shorter: the lowest-rated day goes. On a tie (every day, when nobody voted) a middle day
+ * goes before the arrival or departure day, the priciest first. Later days move up a date, the stay loses a
+ * night and misc shrinks with the trip.
+ */
+export function shortenTrip(
+    { tripData, itinerary, budget }: { tripData: TripData; itinerary: DayPlan[]; budget: Budget },
+    feedback: Record<string, ActivityFeedback> = {},
+): { tripData: TripData; itinerary: DayPlan[]; budget: Budget; removedDay: number } {
+    const travelers = tripData.travelers;
+    const isEnd = (day: DayPlan) => day === itinerary[0] || day === itinerary[itinerary.length - 1];
+    const [removed] = [...itinerary].sort((a, b) =>
+        dayRating(a, feedback) - dayRating(b, feedback)
+        || Number(isEnd(a)) - Number(isEnd(b))
+        || dayCost(b, travelers) - dayCost(a, travelers)
+    );
+
+    const days = itinerary.length - 1;
+    const start = tripData.dateRange?.from ? parseISO(tripData.dateRange.from) : null;
+    const hasDates = start !== null && isValid(start);
+    const shortened = itinerary
+        .filter((day) => day !== removed)
+        .map((day, index) => ({
+            ...day,
+            day: index + 1,
+            date: hasDates ? format(addDays(start, index), "EEEE, MMMM d, yyyy") : day.date,
+        }));
+
+    let next = budget;
+    removed.activities.forEach((activity) => {
+        next = adjustBudget(next, -costTotal(activity.cost, travelers), costCategory(activity.type));
+    });
+    next = {
+        ...next,
+        accommodation: Math.round(budget.accommodation * nightsFor(days) / nightsFor(itinerary.length)),
+        misc: Math.round(budget.misc * days / itinerary.length),
+    };
+    next.total = next.accommodation + next.food + next.activities + next.transport + next.misc;
+
+    return {
+        tripData: {
+            ...tripData,
+            days,
+            dateRange: tripData.dateRange && hasDates
+                ? { ...tripData.dateRange, to: format(addDays(start, days - 1), "yyyy-MM-dd") }
+                : tripData.dateRange,
+        },
+        itinerary: shortened,
+        budget: next,
+        removedDay: removed.day,
+    };
+}
@@ -0,0 +1,135 @@
+import { addDays, format, isValid, parseISO } from "date-fns";
+import type { TripData } from "@/components/TripView";
+import type { ActivityType, DayPlan } from "@/components/ItineraryDisplay";
+import { formatCost } from "@/lib/cost";
+import { parseTimeOfDay } from "@/lib/time";
+
+// iCalendar (RFC 5545) export of an itinerary: one VEVENT per activity.
+// Times are "floating" (no time zone) so they read as local time at the destination, wherever the calendar is.
+
+// How long each kind of activity usually takes, in minutes
+const ESTIMATED_DURATION: Record<ActivityType, number> = {
+    sight: 120,
+    meal: 90,
+    transit: 45,
+    rest: 60,
+    custom: 60,
+};
+const MIN_DURATION = 30;
+
+// The calendar date of a day: from the stored date range when there is one, otherwise whatever DayPlan.date holds
+export function resolveDayDate(day: DayPlan, dayIndex: number, tripData: TripData): Date | null {
+    if (tripData.dateRange?.from) {
+        const start = parseISO(tripData.dateRange.from);
+        if (isValid(start)) return addDays(start, (day.day || dayIndex + 1) - 1);
+    }
+
+    const iso = parseISO(day.date);
+    if (isValid(iso)) return iso;
+
+    // Free text like "Monday, October 20, 2026"; only trusted when it names a year
+    if (/\b\d{4}\b/.test(day.date)) {
+        const parsed = new Date(day.date);
+        if (isValid(parsed)) return parsed;
+    }
+    return null;
+}
+
+export const hasCalendarDates = (itinerary: DayPlan[], tripData: TripData) =>
+    itinerary.some((day, index) => resolveDayDate(day, index, tripData) !== null);
+
+// TEXT values escape backslashes, separators and newlines
+const escapeText = (value: string) =>
+    value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74; // Continuation lines spend one octet on the leading space
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = "";
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+// "Fushimi Inari, Kyoto" stays as is; "Lunch" becomes "Lunch, Kyoto"
+const location = (name: string, destination: string) =>
+    name.toLowerCase().includes(destination.toLowerCase()) ? name : `${name}, ${destination}`;
+
+const dateTime = (date: Date, minutes: number) =>
+    `${format(date, "yyyyMMdd")}T${String(Math.floor(minutes / 60)).padStart(2, "0")}${String(minutes % 60).padStart(2, "0")}00`;
+
+interface CalendarOptions {
+    tripId?: string; // Part of each UID, so a feed refresh updates the trip's events instead of duplicating them
+    now?: Date;
+}
+
+export function buildCalendar(itinerary: DayPlan[], tripData: TripData, { tripId, now = new Date() }: CalendarOptions = {}): string {
+    const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Pathfinder//Travel Itinerary//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(`Trip to ${tripData.destination}`)}`,
+        "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+        "X-PUBLISHED-TTL:PT1H",
+    ];
+
+    itinerary.forEach((day, dayIndex) => {
+        const date = resolveDayDate(day, dayIndex, tripData);
+        if (!date) return;
+
+        day.activities.forEach((activity, activityIndex) => {
+            const start = parseTimeOfDay(activity.time);
+            const description = [activity.description, `Cost: ${formatCost(activity.cost)}`].filter(Boolean).join("\n\n");
+
+            lines.push(
+                "BEGIN:VEVENT",
+                `UID:${activity.id}${tripId ? `.${tripId}` : ""}@pathfinder`,
+                `DTSTAMP:${stamp}`,
+            );
+
+            if (start === null) {
+                // No readable time ("Evening"): an all-day entry on the right date
+                lines.push(
+                    `DTSTART;VALUE=DATE:${format(date, "yyyyMMdd")}`,
+                    `DTEND;VALUE=DATE:${format(addDays(date, 1), "yyyyMMdd")}`,
+                );
+            } else {
+                // Estimated length, cut short if the next activity starts earlier
+                const next = parseTimeOfDay(day.activities[activityIndex + 1]?.time);
+                let duration = ESTIMATED_DURATION[activity.type] ?? ESTIMATED_DURATION.custom;
+                if (next !== null && next > start) duration = Math.max(MIN_DURATION, Math.min(duration, next - start));
+                const end = Math.min(start + duration, 24 * 60 - 1);
+
+                lines.push(`DTSTART:${dateTime(date, start)}`, `DTEND:${dateTime(date, end)}`);
+            }
+
+            lines.push(
+                `SUMMARY:${escapeText(activity.name)}`,
+                `LOCATION:${escapeText(location(activity.name, tripData.destination))}`,
+                `DESCRIPTION:${escapeText(description)}`,
+                `CATEGORIES:${escapeText(activity.type.toUpperCase())}`,
+                "END:VEVENT",
+            );
+        });
+    });
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function calendarFeedUrl(token: string, origin: string = window.location.origin): string {
+    return `${origin}/share/${token}/calendar.ics`;
+}
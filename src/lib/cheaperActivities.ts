@@ -0,0 +1,50 @@
+import { generateObject } from "ai";
+import type { AiProvider } from "@/lib/aiProvider";
+import type { CheaperRequest } from "@/lib/budgetEnforcement";
+import { cheaperFixture } from "@/lib/aiFixtures";
+import { cheaperSchema, costInstructions } from "@/lib/aiSchemas";
+import { normalizeActivity } from "@/lib/itineraries";
+import { formatCost } from "@/lib/cost";
+import { formatMoney } from "@/lib/currency";
+
+interface TripContext {
+    destination: string;
+    days: number;
+    travelers: number;
+    limit: number;
+    currency: string;
+}
+
+// The `findCheaper` callback for enforceBudget: one generation asking for a stand-in per activity, one per request (or null)
+export function cheaperActivityFinder(ai: AiProvider, { destination, days, travelers, limit, currency }: TripContext) {
+    return async (requests: CheaperRequest[]) => {
+        const { object } = await generateObject({
+            model: ai.languageModel(() => cheaperFixture({
+                destination,
+                currency,
+                requests: requests.map(({ activity, maxAmount }) => ({ type: activity.type, name: activity.name, time: activity.time, maxAmount })),
+            })),
+            schema: cheaperSchema,
+            prompt: `
+      You are an expert travel planner for ${destination}.
+      A ${days}-day trip for ${travelers} people is over its budget limit of ${formatMoney(limit, currency)} ${currency}.
+      Suggest ONE cheaper replacement for each numbered activity below: the same type, at the same time, in ${destination}.
+      Each replacement must cost no more than the maximum given (for the same "per"); free options are welcome.
+      Set "replaces" to the activity's number. Keep descriptions punchy and under 20 words.
+
+      ${requests.map(({ activity, dayNumber, maxAmount }, index) =>
+        `${index}. Day ${dayNumber}, ${activity.time}, ${activity.type}: "${activity.name}", ${formatCost(activity.cost)}. Maximum ${formatMoney(maxAmount, currency)} per ${activity.cost.per}.`
+    ).join("\n      ")}
+      ${costInstructions(currency)}
+    `,
+        });
+
+        // Amounts are in the trip currency whatever the model labelled them
+        return requests.map(({ activity }, index) => {
+            const replacement = object.replacements.find((candidate) => candidate.replaces === index);
+            return replacement
+                ? normalizeActivity({ ...replacement, cost: { ...replacement.cost, currency } }, activity.type, currency)
+                : null;
+        });
+    };
+}
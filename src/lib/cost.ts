@@ -0,0 +1,87 @@
+import { Budget } from "@/components/BudgetBreakdown";
+import type { ActivityType } from "@/components/ItineraryDisplay";
+import { DEFAULT_CURRENCY, formatMoney, parseAmount } from "@/lib/currency";
+
+// Structured price of a single activity
+export interface ActivityCost {
+    amount: number; // In `currency`, for one person or the whole group depending on `per`
+    currency: string;
+    per: "person" | "group";
+    estimated: boolean; // true for AI guesses and parsed ranges, false for known prices
+}
+
+export const FREE_COST = (currency: string = DEFAULT_CURRENCY): ActivityCost => ({
+    amount: 0,
+    currency,
+    per: "group",
+    estimated: false,
+});
+
+/**
+ * Parse the free-text costs older trips stored ("Rp 50.000", "Free", "$10-20 per person").
+ * Ranges resolve to their upper bound so budgets err on the safe side.
+ */
+export function parseLegacyCost(value: string | number | null | undefined, currency: string = DEFAULT_CURRENCY): ActivityCost {
+    if (value === null || value === undefined || value === "") return FREE_COST(currency);
+    if (typeof value === "number") return { amount: value, currency, per: "group", estimated: true };
+
+    const str = value.toLowerCase();
+    if (str.includes("free")) return FREE_COST(currency);
+
+    const per = /per\s*(person|pax|head)|\/\s*(person|pax)|\bpp\b/.test(str) ? "person" : "group";
+
+    // Handle ranges with various separators (hyphen, en-dash, em-dash, "to")
+    // This prevents "50.000 - 100.000" from becoming "50000100000"
+    const rangeSeparators = /[-–—]|\s+to\s+/i;
+    if (rangeSeparators.test(str)) {
+        const values = str.split(rangeSeparators).map((part) => parseAmount(part, currency));
+        return { amount: Math.max(...values), currency, per, estimated: true };
+    }
+
+    return { amount: parseAmount(str, currency), currency, per, estimated: /~|approx|around|est/.test(str) };
+}
+
+// Accept either a structured cost or a legacy string and always return a structured one
+export function normalizeCost(cost: unknown, currency: string = DEFAULT_CURRENCY): ActivityCost {
+    if (cost && typeof cost === "object" && "amount" in cost) {
+        const partial = cost as Partial<ActivityCost>;
+        return {
+            amount: Number(partial.amount) || 0,
+            currency: partial.currency || currency,
+            per: partial.per === "person" ? "person" : "group",
+            estimated: partial.estimated ?? true,
+        };
+    }
+    return parseLegacyCost(cost as string | number | null | undefined, currency);
+}
+
+// What the activity costs the whole party, which is what the budget tracks
+export function costTotal(cost: ActivityCost | null | undefined, travelers: number): number {
+    if (!cost) return 0;
+    return cost.per === "person" ? cost.amount * Math.max(1, travelers) : cost.amount;
+}
+
+// e.g. "Free", "Rp 50.000 / person", "~$12.50"
+export function formatCost(cost: ActivityCost | null | undefined): string {
+    if (!cost || cost.amount === 0) return "Free";
+    const amount = `${cost.estimated ? "~" : ""}${formatMoney(cost.amount, cost.currency)}`;
+    return cost.per === "person" ? `${amount} / person` : amount;
+}
+
+export type CostCategory = "activities" | "food" | "transport";
+
+// Meals count towards food, transit towards transport, everything else towards activities
+export function costCategory(type: ActivityType): CostCategory {
+    if (type === "meal") return "food";
+    if (type === "transit") return "transport";
+    return "activities";
+}
+
+// Shift a budget category (and the total) by the difference an edit made, never going below zero
+export function adjustBudget(budget: Budget, diff: number, category: CostCategory = "activities"): Budget {
+    return {
+        ...budget,
+        [category]: Math.max(0, budget[category] + diff),
+        total: Math.max(0, budget.total + diff),
+    };
+}
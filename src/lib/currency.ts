@@ -0,0 +1,165 @@
+// Currency metadata, formatting and exchange rates.
+// Amounts are always plain numbers in the trip's currency; conversion only happens
+// for reference values (minimum budget, prompt hints) and goes through a RateProvider.
+
+export interface CurrencyInfo {
+    code: string;
+    name: string;
+    symbol: string;
+    locale: string; // Drives grouping / decimal separators
+    decimals: number;
+}
+
+export const DEFAULT_CURRENCY = "IDR";
+
+export const CURRENCIES: CurrencyInfo[] = [
+    { code: "IDR", name: "Indonesian Rupiah", symbol: "Rp", locale: "id-ID", decimals: 0 },
+    { code: "USD", name: "US Dollar", symbol: "$", locale: "en-US", decimals: 2 },
+    { code: "EUR", name: "Euro", symbol: "€", locale: "de-DE", decimals: 2 },
+    { code: "GBP", name: "British Pound", symbol: "£", locale: "en-GB", decimals: 2 },
+    { code: "JPY", name: "Japanese Yen", symbol: "¥", locale: "ja-JP", decimals: 0 },
+    { code: "SGD", name: "Singapore Dollar", symbol: "S$", locale: "en-SG", decimals: 2 },
+    { code: "MYR", name: "Malaysian Ringgit", symbol: "RM", locale: "ms-MY", decimals: 2 },
+    { code: "THB", name: "Thai Baht", symbol: "฿", locale: "th-TH", decimals: 2 },
+    { code: "AUD", name: "Australian Dollar", symbol: "A$", locale: "en-AU", decimals: 2 },
+];
+
+export function getCurrency(code: string | undefined | null): CurrencyInfo {
+    const match = CURRENCIES.find((c) => c.code === code?.toUpperCase());
+    // Unknown codes still format sensibly: code as symbol, two decimals
+    return match || { code: code || DEFAULT_CURRENCY, name: code || DEFAULT_CURRENCY, symbol: code || DEFAULT_CURRENCY, locale: "en-US", decimals: 2 };
+}
+
+// e.g. formatMoney(50000, "IDR") -> "Rp 50.000", formatMoney(12.5, "USD") -> "$12.50"
+export function formatMoney(amount: number, currencyCode: string | undefined | null): string {
+    const currency = getCurrency(currencyCode);
+    const hasFraction = currency.decimals > 0 && !Number.isInteger(amount);
+    const formatted = new Intl.NumberFormat(currency.locale, {
+        minimumFractionDigits: hasFraction ? currency.decimals : 0,
+        maximumFractionDigits: currency.decimals,
+    }).format(Math.abs(amount));
+
+    // Letter symbols read better with a space ("Rp 50.000", "RM 20"), sign symbols without ("$20")
+    const separator = /[A-Za-z]$/.test(currency.symbol) ? " " : "";
+    return `${amount < 0 ? "-" : ""}${currency.symbol}${separator}${formatted}`;
+}
+
+/**
+ * Read a number out of a money string written in the given currency's conventions.
+ * "Rp 50.000" -> 50000, "$12.50" -> 12.5, "€1.234,50" -> 1234.5
+ */
+export function parseAmount(value: string, currencyCode: string | undefined | null): number {
+    const currency = getCurrency(currencyCode);
+    const cleaned = value.replace(/[^\d.,]/g, "");
+    if (!cleaned) return 0;
+
+    if (currency.decimals === 0) return parseInt(cleaned.replace(/[.,]/g, "")) || 0;
+
+    // The last separator is a decimal point only when 1-2 digits follow it; everything else is grouping
+    const lastSeparator = Math.max(cleaned.lastIndexOf("."), cleaned.lastIndexOf(","));
+    const fraction = lastSeparator >= 0 ? cleaned.slice(lastSeparator + 1) : "";
+    if (lastSeparator >= 0 && fraction.length > 0 && fraction.length <= 2) {
+        const whole = cleaned.slice(0, lastSeparator).replace(/[.,]/g, "");
+        return parseFloat(`${whole || "0"}.${fraction}`) || 0;
+    }
+    return parseInt(cleaned.replace(/[.,]/g, "")) || 0;
+}
+
+// --- Exchange Rates ---
+
+export interface RateProvider {
+    name: string;
+    // Units of `to` per one unit of `from`
+    getRate(from: string, to: string): Promise<number>;
+}
+
+// Bundled fallback table: units per 1 USD. Approximate, only used for reference values.
+const OFFLINE_USD_RATES: Record<string, number> = {
+    USD: 1,
+    IDR: 16300,
+    EUR: 0.92,
+    GBP: 0.78,
+    JPY: 150,
+    SGD: 1.34,
+    MYR: 4.45,
+    THB: 35.5,
+    AUD: 1.52,
+};
+
+const rateFromTable = (table: Record<string, number>, from: string, to: string): number => {
+    const fromRate = table[from.toUpperCase()];
+    const toRate = table[to.toUpperCase()];
+    if (!fromRate || !toRate) throw new Error(`No exchange rate for ${from} -> ${to}`);
+    return toRate / fromRate;
+};
+
+export const offlineRateProvider: RateProvider = {
+    name: "offline",
+    getRate: async (from, to) => rateFromTable(OFFLINE_USD_RATES, from, to),
+};
+
+// Synchronous conversion against the bundled table, for client-side validation and hints
+export function convertOffline(amount: number, from: string, to: string): number {
+    return amount * rateFromTable(OFFLINE_USD_RATES, from, to);
+}
+
+const RATE_CACHE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Rates from an HTTP endpoint returning `{ rates: { [code]: number } }` for `?base=USD`
+ * (exchangerate.host / Frankfurter style). Falls back to the bundled table when the request fails.
+ */
+export function createHttpRateProvider(url: string): RateProvider {
+    let cache: { rates: Record<string, number>; fetchedAt: number } | null = null;
+
+    const loadRates = async () => {
+        if (cache && Date.now() - cache.fetchedAt < RATE_CACHE_MS) return cache.rates;
+
+        const response = await fetch(`${url}${url.includes("?") ? "&" : "?"}base=USD`);
+        if (!response.ok) throw new Error(`Rate provider responded with ${response.status}`);
+
+        const data = await response.json();
+        cache = { rates: { USD: 1, ...data.rates }, fetchedAt: Date.now() };
+        return cache.rates;
+    };
+
+    return {
+        name: "http",
+        getRate: async (from, to) => {
+            try {
+                return rateFromTable(await loadRates(), from, to);
+            } catch (error) {
+                console.warn("Exchange rate lookup failed, using offline rates:", error);
+                return offlineRateProvider.getRate(from, to);
+            }
+        },
+    };
+}
+
+let activeProvider: RateProvider | null = null;
+
+// EXCHANGE_RATE_API_URL switches to live rates; without it everything runs on the bundled table
+export function getRateProvider(): RateProvider {
+    if (!activeProvider) {
+        const url = process.env.EXCHANGE_RATE_API_URL;
+        activeProvider = url ? createHttpRateProvider(url) : offlineRateProvider;
+    }
+    return activeProvider;
+}
+
+export async function convert(amount: number, from: string, to: string, provider: RateProvider = getRateProvider()): Promise<number> {
+    if (from.toUpperCase() === to.toUpperCase()) return amount;
+    return amount * await provider.getRate(from, to);
+}
+
+// Smallest budget we accept, expressed in the chosen currency (500k IDR baseline), rounded up to a friendly number
+export function minimumBudget(currencyCode: string): number {
+    const raw = convertOffline(500000, "IDR", currencyCode);
+    const magnitude = Math.pow(10, Math.max(0, Math.floor(Math.log10(raw)) - 1));
+    return Math.ceil(raw / magnitude) * magnitude;
+}
+
+// Increment for budget inputs: the order of magnitude of the minimum budget (IDR -> 100.000, USD -> 10)
+export function budgetStep(currencyCode: string): number {
+    return Math.pow(10, Math.floor(Math.log10(minimumBudget(currencyCode))));
+}
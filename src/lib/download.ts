@@ -0,0 +1,9 @@
+// Save generated content as a file from the browser
+export function downloadFile(content: BlobPart, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
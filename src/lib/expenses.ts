@@ -0,0 +1,161 @@
+import type { TripData } from "@/components/TripView";
+import type { Budget } from "@/components/BudgetBreakdown";
+import { convertOffline, getCurrency } from "@/lib/currency";
+
+// Actual spending on a trip: who paid what, who it was for, and who owes whom at the end.
+// Travelers are addressed by position (0 .. travelers - 1) so renaming them never breaks old expenses.
+
+export type ExpenseCategory = Exclude<keyof Budget, "total" | "currency">;
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+    accommodation: "Accommodation",
+    food: "Food",
+    activities: "Activities",
+    transport: "Transport",
+    misc: "Misc",
+};
+
+export const EXPENSE_CATEGORIES = Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[];
+
+// Shape of a row in the `trip_expenses` table
+export interface ExpenseRow {
+    id: string;
+    itinerary_id: string;
+    description: string;
+    amount: number;
+    currency: string;
+    category: ExpenseCategory;
+    activity_id: string | null;
+    paid_by: number;
+    shared_by: number[];
+    spent_on: string; // yyyy-MM-dd
+    created_by: string;
+    created_at: string;
+}
+
+export type NewExpense = Pick<ExpenseRow, "description" | "amount" | "currency" | "category" | "activity_id" | "paid_by" | "shared_by" | "spent_on">;
+
+// What was actually spent per budget category, in the trip currency
+export type ActualSpend = Record<ExpenseCategory | "total", number>;
+
+export interface Settlement {
+    from: number; // Traveler who pays
+    to: number;
+    amount: number; // Trip currency
+}
+
+// Names for every traveler, filling in "Traveler 3" where nobody has set one
+export const travelerNames = (tripData: Pick<TripData, "travelers" | "travelerNames">) =>
+    Array.from({ length: Math.max(1, tripData.travelers) }, (_, index) =>
+        tripData.travelerNames?.[index]?.trim() || `Traveler ${index + 1}`
+    );
+
+// Expenses paid in another currency are converted with the bundled rates; close enough for splitting a bill
+export const amountInTripCurrency = (expense: Pick<ExpenseRow, "amount" | "currency">, currency: string) =>
+    expense.currency === currency ? Number(expense.amount) : convertOffline(Number(expense.amount), expense.currency, currency);
+
+export function actualSpend(expenses: ExpenseRow[], currency: string): ActualSpend {
+    const spend: ActualSpend = { accommodation: 0, food: 0, activities: 0, transport: 0, misc: 0, total: 0 };
+    expenses.forEach((expense) => {
+        const amount = amountInTripCurrency(expense, currency);
+        spend[EXPENSE_CATEGORIES.includes(expense.category) ? expense.category : "misc"] += amount;
+        spend.total += amount;
+    });
+    return spend;
+}
+
+// Total actually spent on each activity, keyed by activity id
+export function spendByActivity(expenses: ExpenseRow[], currency: string): Record<string, number> {
+    const byActivity: Record<string, number> = {};
+    expenses.forEach((expense) => {
+        if (!expense.activity_id) return;
+        byActivity[expense.activity_id] = (byActivity[expense.activity_id] || 0) + amountInTripCurrency(expense, currency);
+    });
+    return byActivity;
+}
+
+/**
+ * Each traveler's position after all expenses, in minor units of the trip currency (cents, or whole
+ * rupiah): what they paid minus their share. Positive means the group owes them.
+ * Shares split evenly; the odd cents go to the first sharers so every expense balances exactly.
+ */
+function balancesInMinorUnits(expenses: ExpenseRow[], travelers: number, currency: string): number[] {
+    const scale = Math.pow(10, getCurrency(currency).decimals);
+    const balances = Array.from({ length: Math.max(1, travelers) }, () => 0);
+
+    expenses.forEach((expense) => {
+        const amount = Math.round(amountInTripCurrency(expense, currency) * scale);
+        const sharers = expense.shared_by.filter((index) => index >= 0 && index < balances.length);
+        const splitAmong = sharers.length > 0 ? sharers : balances.map((_, index) => index);
+        const payer = expense.paid_by < balances.length ? expense.paid_by : 0;
+
+        balances[payer] += amount;
+        splitAmong.forEach((index, position) => {
+            balances[index] -= Math.floor(amount / splitAmong.length) + (position < amount % splitAmong.length ? 1 : 0);
+        });
+    });
+    return balances;
+}
+
+export function travelerBalances(expenses: ExpenseRow[], travelers: number, currency: string): number[] {
+    const scale = Math.pow(10, getCurrency(currency).decimals);
+    return balancesInMinorUnits(expenses, travelers, currency).map((balance) => balance / scale);
+}
+
+// Biggest debtor pays biggest creditor until everyone in `group` is even; balances are updated in place
+function settleGreedily(balances: number[], group: number[], scale: number): Settlement[] {
+    const settlements: Settlement[] = [];
+    while (true) {
+        const creditor = group.reduce((best, index) => balances[index] > balances[best] ? index : best, group[0]);
+        const debtor = group.reduce((worst, index) => balances[index] < balances[worst] ? index : worst, group[0]);
+        const amount = Math.min(balances[creditor], -balances[debtor]);
+        if (!(amount > 0)) return settlements;
+
+        balances[creditor] -= amount;
+        balances[debtor] += amount;
+        settlements.push({ from: debtor, to: creditor, amount: amount / scale });
+    }
+}
+
+const MAX_EXACT_TRAVELERS = 12; // 2^12 subsets; beyond that one greedy pass is good enough
+
+/**
+ * Who pays whom to settle up, in as few payments as possible. A group of n travelers whose balances
+ * cancel out settles in n - 1 payments, so the fewest payments come from splitting everyone with a
+ * balance into as many such groups as possible (found over all subsets), then settling each group.
+ */
+export function settleUp(expenses: ExpenseRow[], travelers: number, currency: string): Settlement[] {
+    const scale = Math.pow(10, getCurrency(currency).decimals);
+    const balances = balancesInMinorUnits(expenses, travelers, currency);
+    const open = balances.map((_, index) => index).filter((index) => balances[index] !== 0);
+    if (open.length > MAX_EXACT_TRAVELERS) return settleGreedily(balances, open, scale);
+
+    // groups[mask]: most zero-sum groups the travelers in `mask` split into
+    const subsets = 1 << open.length;
+    const sums = new Array<number>(subsets).fill(0);
+    const groups = new Array<number>(subsets).fill(0);
+    for (let mask = 1; mask < subsets; mask++) {
+        const lowest = Math.log2(mask & -mask);
+        sums[mask] = sums[mask & (mask - 1)] + balances[open[lowest]];
+        open.forEach((_, bit) => {
+            if (mask & (1 << bit)) groups[mask] = Math.max(groups[mask], groups[mask ^ (1 << bit)]);
+        });
+        if (sums[mask] === 0) groups[mask] += 1;
+    }
+
+    // Walk back down from everyone; each stretch between two zero-sum subsets is one group
+    const settlements: Settlement[] = [];
+    let mask = subsets - 1;
+    let group: number[] = [];
+    while (mask) {
+        const bonus = sums[mask] === 0 ? 1 : 0;
+        const bit = open.findIndex((_, candidate) => (mask & (1 << candidate)) && groups[mask ^ (1 << candidate)] === groups[mask] - bonus);
+        group.push(open[bit]);
+        mask ^= 1 << bit;
+        if (sums[mask] === 0) {
+            settlements.push(...settleGreedily(balances, group, scale));
+            group = [];
+        }
+    }
+    return settlements;
+}
@@ -0,0 +1,76 @@
+import type { DayPlan } from "@/components/ItineraryDisplay";
+
+// Shape of a row in the `activity_comments` table
+export interface CommentRow {
+    id: string;
+    itinerary_id: string;
+    activity_id: string;
+    user_id: string;
+    author_email: string | null;
+    body: string;
+    created_at: string;
+}
+
+// Shape of a row in the `activity_votes` table
+export interface VoteRow {
+    itinerary_id: string;
+    activity_id: string;
+    user_id: string;
+    value: 1 | -1;
+    updated_at: string;
+}
+
+export type VoteValue = 1 | -1;
+
+// Counts shown on an activity, keyed by activity id
+export interface ActivityFeedback {
+    up: number;
+    down: number;
+    comments: number;
+    myVote: VoteValue | null;
+}
+
+export interface DisputedActivity {
+    activityId: string;
+    name: string;
+    day: number;
+    dayIndex: number;
+    activityIndex: number;
+    feedback: ActivityFeedback;
+}
+
+export const EMPTY_FEEDBACK: ActivityFeedback = { up: 0, down: 0, comments: 0, myVote: null };
+
+export function summarizeFeedback(comments: CommentRow[], votes: VoteRow[], userId: string | null): Record<string, ActivityFeedback> {
+    const byActivity: Record<string, ActivityFeedback> = {};
+    const entry = (activityId: string) => (byActivity[activityId] ??= { ...EMPTY_FEEDBACK });
+
+    comments.forEach((comment) => {
+        entry(comment.activity_id).comments += 1;
+    });
+    votes.forEach((vote) => {
+        const feedback = entry(vote.activity_id);
+        if (vote.value > 0) feedback.up += 1;
+        else feedback.down += 1;
+        if (vote.user_id === userId) feedback.myVote = vote.value;
+    });
+    return byActivity;
+}
+
+// Thumbs down count most, and more so when the group is split; unanimous approval scores 0
+export const disputeScore = ({ up, down, comments }: ActivityFeedback) =>
+    down === 0 ? 0 : down * 2 + Math.min(up, down) + comments * 0.5;
+
+// Activities people object to, worst first; feedback on activities no longer in the plan is ignored
+export function mostDisputed(itinerary: DayPlan[], feedback: Record<string, ActivityFeedback>, limit = 3): DisputedActivity[] {
+    const disputed: DisputedActivity[] = [];
+    itinerary.forEach((day, dayIndex) => {
+        day.activities.forEach((activity, activityIndex) => {
+            const entry = feedback[activity.id];
+            if (entry && disputeScore(entry) > 0) {
+                disputed.push({ activityId: activity.id, name: activity.name, day: day.day, dayIndex, activityIndex, feedback: entry });
+            }
+        });
+    });
+    return disputed.sort((a, b) => disputeScore(b.feedback) - disputeScore(a.feedback)).slice(0, limit);
+}
@@ -0,0 +1,113 @@
+import type { DeepPartial } from "ai";
+import { Weather, Hotel } from "@/components/TripView";
+import { Activity, DayPlan } from "@/components/ItineraryDisplay";
+import { Budget } from "@/components/BudgetBreakdown";
+import { normalizeCost } from "@/lib/cost";
+import type { BudgetCheck } from "@/lib/budgetEnforcement";
+
+export interface GeneratedTrip {
+    itinerary: DayPlan[];
+    budget: Budget;
+    weather: Weather;
+    hotels: Hotel[];
+}
+
+export type PartialTrip = DeepPartial<GeneratedTrip>;
+
+// Events written by /api/generate, one JSON object per line
+export type GenerationEvent =
+    | { type: "partial"; object: PartialTrip }
+    | { type: "done"; object: GeneratedTrip; warnings: string[]; budgetCheck?: BudgetCheck } // Warnings: what the validation pass had to repair
+    | { type: "error"; error: string };
+
+interface StreamOptions {
+    onPartial?: (partial: PartialTrip) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * POST the trip parameters to /api/generate and read the event stream.
+ * Calls onPartial for every partial object and resolves with the final trip, any repair warnings and the budget check.
+ */
+export async function streamGeneration(
+    payload: unknown,
+    { onPartial, signal }: StreamOptions = {},
+): Promise<{ trip: GeneratedTrip; warnings: string[]; budgetCheck: BudgetCheck | null }> {
+    const response = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal,
+    });
+
+    if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to generate itinerary");
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || ""; // Keep the incomplete trailing line for the next chunk
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+
+            const event = JSON.parse(line) as GenerationEvent;
+            if (event.type === "partial") onPartial?.(event.object);
+            if (event.type === "error") throw new Error(event.error);
+            if (event.type === "done") return { trip: event.object, warnings: event.warnings || [], budgetCheck: event.budgetCheck || null };
+        }
+    }
+
+    throw new Error("Generation ended unexpectedly. Please try again.");
+}
+
+// Days (and activities) that have enough content to render while the rest is still streaming
+export function toRenderableDays(partial: PartialTrip | null, currency: string): DayPlan[] {
+    const days = partial?.itinerary || [];
+
+    return days.flatMap((day) => {
+        if (!day || day.day === undefined) return [];
+
+        // Ids are positional until the final itinerary arrives and replaces these
+        const activities = (day.activities || []).flatMap((activity, index) => activity?.name
+            ? [{
+                id: `streaming-${day.day}-${index}`,
+                type: activity.type || "custom",
+                name: activity.name,
+                description: activity.description || "",
+                time: activity.time || "",
+                cost: normalizeCost(activity.cost?.amount !== undefined ? activity.cost : null, currency),
+            } satisfies Activity]
+            : []
+        );
+
+        if (activities.length === 0) return [];
+        return [{ day: day.day, date: day.date || "", activities }];
+    });
+}
+
+// Turn what has arrived so far into a progress percentage and a status line
+export function describeProgress(partial: PartialTrip | null, totalDays: number): { progress: number; message: string } {
+    if (!partial) return { progress: 2, message: "Contacting our travel experts..." };
+
+    const daysStarted = partial.itinerary?.length || 0;
+    if (!partial.budget && !partial.weather && !partial.hotels) {
+        const current = Math.max(1, Math.min(daysStarted, totalDays));
+        return {
+            progress: 5 + (Math.max(0, daysStarted - 1) / Math.max(1, totalDays)) * 75,
+            message: `Planning day ${current} of ${totalDays}...`,
+        };
+    }
+
+    if (!partial.weather) return { progress: 85, message: "Estimating your budget..." };
+    if (!partial.hotels?.length) return { progress: 90, message: "Checking the weather..." };
+    return { progress: 95, message: "Finding places to stay..." };
+}
@@ -0,0 +1,137 @@
+import { TripData, Weather, Hotel } from "@/components/TripView";
+import { Activity, ActivityType, DayPlan } from "@/components/ItineraryDisplay";
+import { Budget } from "@/components/BudgetBreakdown";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { normalizeCost } from "@/lib/cost";
+
+// Shape of a row in the `itineraries` table.
+// trip_data / weather / hotels were added later, so older rows have them as null.
+export interface ItineraryRow {
+    id: string;
+    user_id: string;
+    created_at: string;
+    updated_at?: string; // Missing from offline copies cached before the column existed
+    destination: string;
+    days: number;
+    itinerary_data: unknown[]; // DayPlan[], possibly in an older shape; run through normalizeItinerary
+    budget_breakdown: Budget;
+    trip_data?: Partial<TripData> | null;
+    weather?: Weather | null;
+    hotels?: Hotel[] | null;
+}
+
+export interface SavedTrip {
+    tripData: TripData;
+    itinerary: DayPlan[];
+    budget: Budget;
+    weather: Weather | null;
+    hotels: Hotel[];
+}
+
+// Fixed slots older trips were saved with, in visiting order, and what each one held
+const LEGACY_SLOTS: Array<[string, ActivityType]> = [
+    ["morning", "sight"],
+    ["lunch", "meal"],
+    ["afternoon", "sight"],
+    ["dinner", "meal"],
+    ["evening", "sight"],
+];
+
+const ACTIVITY_TYPE_VALUES: ActivityType[] = ["sight", "meal", "transit", "rest", "custom"];
+
+export function createActivityId(): string {
+    // randomUUID is missing outside secure contexts (e.g. dev server over a LAN IP)
+    if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+    return `act-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Whatever was stored for an activity (legacy strings, missing ids or types) as a complete Activity.
+// `fallbackId` names activities stored without an id; without one they get a fresh random id.
+export function normalizeActivity(raw: Partial<Activity>, fallbackType: ActivityType, currency: string, fallbackId?: string): Activity {
+    return {
+        id: raw.id || fallbackId || createActivityId(),
+        type: raw.type && ACTIVITY_TYPE_VALUES.includes(raw.type) ? raw.type : fallbackType,
+        name: raw.name || "",
+        description: raw.description || "",
+        time: raw.time || "",
+        cost: normalizeCost(raw.cost, currency),
+    };
+}
+
+/**
+ * Bring any stored itinerary up to the current shape: an ordered activity list per day,
+ * every activity with an id, a type and a structured cost.
+ * Handles trips saved with fixed morning/lunch/afternoon/dinner/evening slots and free-text costs.
+ */
+export function normalizeItinerary(days: unknown[], currency: string = DEFAULT_CURRENCY): DayPlan[] {
+    return (days || []).map((rawDay, index) => {
+        const day = rawDay as { day?: number; date?: string; activities?: unknown };
+        const dayNumber = day.day ?? index + 1;
+
+        // Activities stored without ids get ones derived from their position, so the same stored trip always
+        // yields the same ids (comments, votes, expenses and calendar UIDs are keyed on them) until it's saved with ids
+        let activities: Activity[];
+        if (Array.isArray(day.activities)) {
+            activities = day.activities.map((activity, position) =>
+                normalizeActivity(activity, "custom", currency, `legacy-${dayNumber}-${position}`)
+            );
+        } else {
+            const slots = (day.activities || {}) as Record<string, Partial<Activity> | null | undefined>;
+            activities = LEGACY_SLOTS.flatMap(([slot, type]) => {
+                const activity = slots[slot];
+                return activity ? [normalizeActivity(activity, type, currency, `legacy-${dayNumber}-${slot}`)] : []; // Removed slots were stored as null
+            });
+        }
+
+        return { day: dayNumber, date: day.date || "", activities };
+    });
+}
+
+// Relabel every activity cost with the trip currency
+export function withCurrency(days: DayPlan[], currency: string): DayPlan[] {
+    return days.map((day) => ({
+        ...day,
+        activities: day.activities.map((activity) => ({ ...activity, cost: { ...activity.cost, currency } })),
+    }));
+}
+
+// Rehydrate a saved row, falling back to what we can infer for rows saved before the trip context existed
+export function rowToSavedTrip(row: ItineraryRow): SavedTrip {
+    const context = row.trip_data || {};
+    const currency = context.currency || row.budget_breakdown?.currency || DEFAULT_CURRENCY;
+
+    return {
+        tripData: {
+            destination: context.destination || row.destination,
+            days: context.days || row.days,
+            budget: context.budget ?? row.budget_breakdown?.total ?? 0,
+            currency,
+            travelers: context.travelers || 1,
+            travelerNames: context.travelerNames,
+            interests: context.interests,
+            pace: context.pace,
+            budgetMode: context.budgetMode,
+            dateRange: context.dateRange,
+        },
+        itinerary: normalizeItinerary(row.itinerary_data, currency),
+        budget: row.budget_breakdown,
+        weather: row.weather || null,
+        hotels: row.hotels || [],
+    };
+}
+
+// Columns to write when inserting a new trip
+export function savedTripToRow(trip: SavedTrip) {
+    const { destination, days, budget, travelers, travelerNames, currency, interests, pace, budgetMode, dateRange } = trip.tripData;
+
+    return {
+        destination,
+        days,
+        itinerary_data: trip.itinerary,
+        budget_breakdown: trip.budget,
+        // Only the known TripData fields, so form-only values (Date objects etc.) never reach the column
+        trip_data: { destination, days, budget, travelers, travelerNames, currency, interests, pace, budgetMode, dateRange },
+        weather: trip.weather,
+        hotels: trip.hotels,
+    };
+}
@@ -0,0 +1,228 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { ItineraryRow } from "@/lib/itineraries";
+
+// Offline copies of the user's saved trips and the edits made while offline, kept in IndexedDB.
+// Pages read from here when Supabase can't be reached; queued edits are written back once the browser is online again.
+
+const DB_NAME = "pathfinder-offline";
+const DB_VERSION = 1;
+const TRIPS = "trips"; // ItineraryRow, keyed by id
+const PENDING = "pendingEdits"; // PendingEdit, keyed by itineraryId
+
+// Fired on window after queued edits were written back; detail is the ids of the synced trips
+export const TRIPS_SYNCED_EVENT = "pathfinder:trips-synced";
+
+export type TripChanges = Partial<Pick<ItineraryRow, "itinerary_data" | "budget_breakdown" | "hotels" | "days" | "trip_data">>;
+
+// One per trip: later offline saves of the same trip replace earlier ones, since each holds the full state
+export interface PendingEdit {
+    itineraryId: string;
+    changes: TripChanges;
+    queuedAt: string;
+    userId?: string | null; // Who made the edit; only their session writes it back
+    baseUpdatedAt?: string | null; // The trip's updated_at when the first of these edits was made
+}
+
+export interface SyncResult {
+    synced: string[]; // Trip ids
+    conflicts: PendingEdit[]; // The trip changed since; still queued until the user decides
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(TRIPS)) db.createObjectStore(TRIPS, { keyPath: "id" });
+            if (!db.objectStoreNames.contains(PENDING)) db.createObjectStore(PENDING, { keyPath: "itineraryId" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return promisify(run(db.transaction(name, mode).objectStore(name)));
+}
+
+// --- Trips ---
+
+export async function cacheTrips(rows: ItineraryRow[]) {
+    const db = await openDb();
+    const transaction = db.transaction(TRIPS, "readwrite");
+    rows.forEach((row) => transaction.objectStore(TRIPS).put(row));
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+}
+
+export const getCachedTrip = (id: string) =>
+    withStore<ItineraryRow | undefined>(TRIPS, "readonly", (store) => store.get(id));
+
+export const getCachedTrips = () =>
+    withStore<ItineraryRow[]>(TRIPS, "readonly", (store) => store.getAll());
+
+// Keep the offline copy in step with a save, so reopening the trip offline shows it
+export async function updateCachedTrip(id: string, changes: TripChanges & Pick<ItineraryRow, "updated_at">) {
+    const cached = await getCachedTrip(id);
+    if (cached) await cacheTrips([{ ...cached, ...changes }]);
+}
+
+// The trip as it is in the database, or the copy on this device when Supabase can't be reached
+export async function fetchTripRow(id: string): Promise<{ row: ItineraryRow; offline: boolean } | null> {
+    const { data, error } = await supabase
+        .from('itineraries')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+    if (!error) return data ? { row: data, offline: false } : null;
+
+    const cached = isNetworkError(error) ? await getCachedTrip(id).catch(() => undefined) : undefined;
+    if (cached) return { row: cached, offline: true };
+
+    console.error("Error fetching trip:", error);
+    return null;
+}
+
+// --- Queued edits ---
+
+const currentUserId = async () => (await supabase.auth.getSession()).data.session?.user.id ?? null;
+
+// Edits pile up on the version of the trip the first one was made on; the cached copy still carries its updated_at
+export async function queueEdit(itineraryId: string, changes: TripChanges) {
+    const existing = await withStore<PendingEdit | undefined>(PENDING, "readonly", (store) => store.get(itineraryId));
+    const edit: PendingEdit = {
+        itineraryId,
+        changes: { ...existing?.changes, ...changes },
+        queuedAt: new Date().toISOString(),
+        userId: existing?.userId ?? await currentUserId(),
+        baseUpdatedAt: existing ? existing.baseUpdatedAt : (await getCachedTrip(itineraryId))?.updated_at ?? null,
+    };
+    await withStore(PENDING, "readwrite", (store) => store.put(edit));
+    await updateCachedTrip(itineraryId, changes);
+}
+
+export const getPendingEdit = (itineraryId: string) =>
+    withStore<PendingEdit | undefined>(PENDING, "readonly", (store) => store.get(itineraryId));
+
+export const getPendingEdits = () =>
+    withStore<PendingEdit[]>(PENDING, "readonly", (store) => store.getAll());
+
+// Edits the signed-in user queued (older entries didn't record who made them)
+const getOwnPendingEdits = async () => {
+    const userId = await currentUserId();
+    if (!userId) return [];
+    return (await getPendingEdits()).filter((edit) => !edit.userId || edit.userId === userId);
+};
+
+const dropPendingEdit = (itineraryId: string) =>
+    withStore(PENDING, "readwrite", (store) => store.delete(itineraryId));
+
+// Write an edit back; with `onlyIfUnchanged`, only while the trip is still as it was when the edit was made.
+// Resolves to the new updated_at, null when the trip changed since (or is gone), and throws on errors.
+async function writeEdit(edit: PendingEdit, onlyIfUnchanged: boolean): Promise<string | null> {
+    // Without a recorded updated_at there's no telling whether someone else saved since
+    if (onlyIfUnchanged && !edit.baseUpdatedAt) return null;
+
+    let query = supabase.from('itineraries').update(edit.changes).eq('id', edit.itineraryId);
+    if (onlyIfUnchanged && edit.baseUpdatedAt) query = query.eq('updated_at', edit.baseUpdatedAt);
+    const { data, error } = await query.select('updated_at');
+
+    if (error) throw error;
+    return data?.[0]?.updated_at ?? null;
+}
+
+let syncInProgress: Promise<SyncResult> | null = null;
+
+// Write queued edits back to Supabase; edits that fail stay queued for the next attempt,
+// and edits to trips someone else saved in the meantime stay queued until the user resolves them
+export function syncPendingEdits(): Promise<SyncResult> {
+    syncInProgress ??= (async () => {
+        const result: SyncResult = { synced: [], conflicts: [] };
+        try {
+            for (const edit of await getOwnPendingEdits()) {
+                let updatedAt: string | null;
+                try {
+                    updatedAt = await writeEdit(edit, true);
+                } catch (error) {
+                    console.error("Error syncing offline edit:", error);
+                    continue;
+                }
+
+                if (!updatedAt) {
+                    result.conflicts.push(edit);
+                    continue;
+                }
+                await dropPendingEdit(edit.itineraryId);
+                await updateCachedTrip(edit.itineraryId, { updated_at: updatedAt });
+                result.synced.push(edit.itineraryId);
+            }
+        } finally {
+            syncInProgress = null;
+        }
+
+        if (result.synced.length > 0) window.dispatchEvent(new CustomEvent(TRIPS_SYNCED_EVENT, { detail: result.synced }));
+        return result;
+    })();
+    return syncInProgress;
+}
+
+// The user chose their offline edit over what was saved meanwhile
+export async function overwriteWithPendingEdit(edit: PendingEdit) {
+    const updatedAt = await writeEdit(edit, false);
+    if (!updatedAt) throw new Error("This trip no longer exists or you can no longer edit it.");
+    await dropPendingEdit(edit.itineraryId);
+    await updateCachedTrip(edit.itineraryId, { updated_at: updatedAt });
+    window.dispatchEvent(new CustomEvent(TRIPS_SYNCED_EVENT, { detail: [edit.itineraryId] }));
+}
+
+// The user chose what was saved meanwhile; the offline copy goes back to the database version
+export async function discardPendingEdit(edit: PendingEdit) {
+    await dropPendingEdit(edit.itineraryId);
+    const loaded = await fetchTripRow(edit.itineraryId);
+    if (loaded && !loaded.offline) await cacheTrips([loaded.row]);
+    window.dispatchEvent(new CustomEvent(TRIPS_SYNCED_EVENT, { detail: [edit.itineraryId] }));
+}
+
+/**
+ * Before signing out: write back what's queued and, if anything still can't be written, ask whether to
+ * sign out anyway. Resolves to false when the user would rather stay signed in; on true the unsynced
+ * edits are dropped, since the next person on this device shouldn't inherit them.
+ */
+export async function confirmSignOut(): Promise<boolean> {
+    if (navigator.onLine) await syncPendingEdits().catch((error) => console.error("Error syncing offline edits:", error));
+
+    const remaining = await getOwnPendingEdits().catch(() => []);
+    if (remaining.length === 0) return true;
+
+    const trips = remaining.length === 1 ? "1 trip" : `${remaining.length} trips`;
+    if (!window.confirm(`Your offline changes to ${trips} haven't synced yet. Signing out will discard them. Sign out anyway?`)) return false;
+
+    await Promise.all(remaining.map((edit) => dropPendingEdit(edit.itineraryId)));
+    return true;
+}
+
+// On sign out, so the next person on this device doesn't see someone else's trips.
+// Queued edits stay: signing out on purpose goes through confirmSignOut, and a session that simply
+// expired shouldn't cost the user their offline work. They only sync for the user who made them.
+export async function clearOfflineData() {
+    await withStore(TRIPS, "readwrite", (store) => store.clear());
+}
+
+// Supabase calls reject or return an error with this message when the network is down
+export const isNetworkError = (error: { message?: string } | null | undefined) =>
+    typeof navigator !== "undefined" && (!navigator.onLine || /failed to fetch|network|load failed/i.test(error?.message || ""));
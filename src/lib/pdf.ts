@@ -0,0 +1,361 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format, isValid, parseISO } from "date-fns";
+import type { TripData, Weather, Hotel } from "@/components/TripView";
+import type { ActivityType, DayPlan } from "@/components/ItineraryDisplay";
+import type { Budget } from "@/components/BudgetBreakdown";
+import { DEFAULT_CURRENCY, formatMoney, getCurrency } from "@/lib/currency";
+import { formatCost } from "@/lib/cost";
+import { resolveDayDate } from "@/lib/calendar";
+
+// Printable travel document for a trip. Pure: takes the trip, returns a jsPDF document,
+// so the browser can save it and a route handler can send it as bytes.
+
+export interface ItineraryPdfInput {
+    tripData: TripData;
+    itinerary: DayPlan[];
+    budget: Budget | null;
+    weather?: Weather | null;
+    hotels?: Hotel[];
+    generatedAt?: Date;
+}
+
+type Color = [number, number, number];
+
+const TEAL: Color = [13, 148, 136];
+const DARK: Color = [6, 78, 59];
+const MUTED: Color = [110, 130, 120];
+const ORANGE: Color = [249, 115, 22];
+const RED: Color = [220, 38, 38];
+
+const MARGIN = 14;
+const FOOTER_SPACE = 20;
+
+// Kept here rather than imported from ItineraryDisplay so this module has no React dependencies
+const TYPE_LABELS: Record<ActivityType, string> = {
+    sight: "Sight",
+    meal: "Meal",
+    transit: "Transit",
+    rest: "Rest",
+    custom: "Custom",
+};
+
+const BUDGET_CATEGORIES = [
+    { key: "accommodation", label: "Accommodation" },
+    { key: "food", label: "Food" },
+    { key: "activities", label: "Activities" },
+    { key: "transport", label: "Transport" },
+    { key: "misc", label: "Misc" },
+] as const;
+
+const EMERGENCY_FIELDS = [
+    "Local emergency number",
+    "Nearest embassy / consulate",
+    "Travel insurance (provider, policy no.)",
+    "Emergency contact at home",
+    "Medical notes (allergies, medication)",
+];
+
+// The standard PDF fonts only cover Latin-1; Intl formatting uses non-breaking spaces they can't draw
+const clean = (text: string) => text.replace(/[\u00a0\u202f]/g, " ");
+
+// ...and none of the newer currency signs (฿, ₹, ₩). Amounts in those read "THB 1,200" instead.
+const DRAWABLE = /^[\u0020-\u00ff€]*$/;
+
+const withDrawableSymbol = (text: string, currencyCode: string) => {
+    const { code, symbol } = getCurrency(currencyCode);
+    return DRAWABLE.test(symbol) ? text : text.replace(symbol, `${code} `);
+};
+
+const pdfMoney = (amount: number, currency: string) => withDrawableSymbol(formatMoney(amount, currency), currency);
+
+export const mapsUrl = (query: string) => `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+
+// "Day 2 - Tuesday, October 21, 2026", or just "Day 2" when the date is unknown
+const dayHeading = (day: DayPlan, dayIndex: number, tripData: TripData) => {
+    const date = resolveDayDate(day, dayIndex, tripData);
+    const label = date ? format(date, "EEEE, MMMM d, yyyy") : day.date;
+    return label ? `Day ${day.day} - ${label}` : `Day ${day.day}`;
+};
+
+const tripDatesLabel = (tripData: TripData) => {
+    const { dateRange } = tripData;
+    if (!dateRange?.from || !dateRange.to) return null;
+    const from = parseISO(dateRange.from);
+    const to = parseISO(dateRange.to);
+    if (!isValid(from) || !isValid(to)) return null;
+    return `${format(from, "MMM d")} - ${format(to, "MMM d, yyyy")}`;
+};
+
+// Y position after the last table drawn
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const lastTableY = (doc: jsPDF): number => (doc as any).lastAutoTable.finalY;
+
+function sectionHeading(doc: jsPDF, title: string, y: number): number {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    if (y > pageHeight - FOOTER_SPACE - 30) {
+        doc.addPage();
+        y = 20;
+    }
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.setTextColor(...DARK);
+    doc.text(title, MARGIN, y);
+    doc.setDrawColor(...ORANGE);
+    doc.setLineWidth(0.8);
+    doc.line(MARGIN, y + 2, MARGIN + 20, y + 2);
+    return y + 8;
+}
+
+function drawCover(doc: jsPDF, { tripData, generatedAt = new Date() }: ItineraryPdfInput) {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    doc.setFillColor(...TEAL);
+    doc.rect(0, 0, pageWidth, pageHeight, "F");
+    doc.setFillColor(...ORANGE);
+    doc.rect(0, pageHeight * 0.62, pageWidth, 3, "F");
+
+    doc.setTextColor(255, 255, 255);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(12);
+    doc.text("TRAVEL ITINERARY", MARGIN + 6, pageHeight * 0.35);
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(36);
+    const title = doc.splitTextToSize(clean(tripData.destination.toUpperCase()), pageWidth - (MARGIN + 6) * 2);
+    doc.text(title, MARGIN + 6, pageHeight * 0.35 + 16);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(14);
+    const details = [
+        tripDatesLabel(tripData),
+        `${tripData.days} ${tripData.days === 1 ? "day" : "days"} · ${tripData.travelers} ${tripData.travelers === 1 ? "traveler" : "travelers"}`,
+    ].filter((line): line is string => !!line);
+    doc.text(details, MARGIN + 6, pageHeight * 0.35 + 16 + title.length * 14);
+
+    doc.setFontSize(10);
+    doc.text(`Prepared with Pathfinder on ${format(generatedAt, "MMMM d, yyyy")}`, MARGIN + 6, pageHeight - 20);
+}
+
+function drawSummary(doc: jsPDF, { tripData, budget, weather }: ItineraryPdfInput): number {
+    const currency = budget?.currency || tripData.currency || DEFAULT_CURRENCY;
+    let y = sectionHeading(doc, "Trip Summary", 22);
+
+    const rows: [string, string][] = [
+        ["Destination", tripData.destination],
+        ["Dates", tripDatesLabel(tripData) || "Not set"],
+        ["Duration", `${tripData.days} ${tripData.days === 1 ? "day" : "days"}`],
+        ["Travelers", String(tripData.travelers)],
+    ];
+    if (tripData.pace) rows.push(["Pace", tripData.pace]);
+    if (tripData.interests?.length) rows.push(["Interests", tripData.interests.join(", ")]);
+    rows.push(["Budget limit", pdfMoney(tripData.budget, currency)]);
+    if (budget) rows.push(["Estimated total", pdfMoney(budget.total, currency)]);
+
+    autoTable(doc, {
+        startY: y,
+        body: rows.map(([label, value]) => [label, clean(value)]),
+        theme: "plain",
+        columnStyles: {
+            0: { fontStyle: "bold", cellWidth: 45, textColor: MUTED },
+            1: { textColor: DARK },
+        },
+        styles: { fontSize: 11, cellPadding: 3 },
+        margin: { left: MARGIN, right: MARGIN, bottom: FOOTER_SPACE },
+    });
+    y = lastTableY(doc) + 10;
+
+    if (weather?.summary) {
+        const pageWidth = doc.internal.pageSize.getWidth();
+        const lines: string[] = doc.splitTextToSize(clean(weather.summary), pageWidth - MARGIN * 2 - 12);
+        const boxHeight = 16 + lines.length * 5;
+
+        doc.setFillColor(236, 253, 245);
+        doc.roundedRect(MARGIN, y, pageWidth - MARGIN * 2, boxHeight, 3, 3, "F");
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(11);
+        doc.setTextColor(...DARK);
+        doc.text(`Weather${weather.temperature ? ` (${clean(weather.temperature)})` : ""}`, MARGIN + 6, y + 8);
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(10);
+        doc.setTextColor(...MUTED);
+        doc.text(lines, MARGIN + 6, y + 14);
+        y += boxHeight + 10;
+    }
+    return y;
+}
+
+function drawDays(doc: jsPDF, { tripData, itinerary }: ItineraryPdfInput, startY: number): number {
+    let y = sectionHeading(doc, "Day by Day", startY);
+
+    itinerary.forEach((day, dayIndex) => {
+        // Keep a day's heading with at least the start of its table
+        if (y > doc.internal.pageSize.getHeight() - FOOTER_SPACE - 40) {
+            doc.addPage();
+            y = 20;
+        }
+
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(13);
+        doc.setTextColor(...TEAL);
+        doc.text(clean(dayHeading(day, dayIndex, tripData)), MARGIN, y);
+
+        if (day.activities.length === 0) {
+            doc.setFont("helvetica", "italic");
+            doc.setFontSize(10);
+            doc.setTextColor(...MUTED);
+            doc.text("Nothing planned for this day.", MARGIN, y + 7);
+            y += 17;
+            return;
+        }
+
+        autoTable(doc, {
+            startY: y + 3,
+            head: [["Time", "Type", "Activity", "Cost"]],
+            body: day.activities.map((activity) => [
+                activity.time,
+                TYPE_LABELS[activity.type] || TYPE_LABELS.custom,
+                clean(`${activity.name}\n${activity.description}`),
+                clean(withDrawableSymbol(formatCost(activity.cost), activity.cost.currency)),
+            ]),
+            theme: "grid",
+            headStyles: { fillColor: TEAL },
+            columnStyles: {
+                0: { fontStyle: "bold", cellWidth: 25 },
+                1: { cellWidth: 20 },
+                2: { cellWidth: "auto" },
+                3: { cellWidth: 32, halign: "right" },
+            },
+            styles: { fontSize: 9, cellPadding: 3 },
+            margin: { left: MARGIN, right: MARGIN, top: 20, bottom: FOOTER_SPACE },
+            // The activity cell opens the place in Google Maps
+            didDrawCell: (data) => {
+                if (data.section !== "body" || data.column.index !== 2) return;
+                const activity = day.activities[data.row.index];
+                doc.link(data.cell.x, data.cell.y, data.cell.width, data.cell.height, { url: mapsUrl(`${activity.name}, ${tripData.destination}`) });
+            },
+        });
+        y = lastTableY(doc) + 12;
+    });
+    return y;
+}
+
+function drawHotels(doc: jsPDF, { hotels = [] }: ItineraryPdfInput, startY: number): number {
+    if (hotels.length === 0) return startY;
+    const y = sectionHeading(doc, "Where to Stay", startY);
+
+    autoTable(doc, {
+        startY: y,
+        head: [["Hotel", "Address", "Per night"]],
+        body: hotels.map((hotel) => [
+            clean(`${hotel.name}\n${hotel.category}`),
+            clean(`${hotel.address}\nOpen in Google Maps`),
+            clean(hotel.price_per_night),
+        ]),
+        theme: "grid",
+        headStyles: { fillColor: [79, 70, 229] },
+        columnStyles: {
+            0: { fontStyle: "bold", cellWidth: 55 },
+            1: { cellWidth: "auto" },
+            2: { cellWidth: 32, halign: "right" },
+        },
+        styles: { fontSize: 9, cellPadding: 3 },
+        margin: { left: MARGIN, right: MARGIN, top: 20, bottom: FOOTER_SPACE },
+        // Addresses are maps links, so the document works on a phone during the trip
+        didDrawCell: (data) => {
+            if (data.section !== "body" || data.column.index !== 1) return;
+            const hotel = hotels[data.row.index];
+            doc.link(data.cell.x, data.cell.y, data.cell.width, data.cell.height, { url: mapsUrl(`${hotel.name}, ${hotel.address}`) });
+        },
+    });
+    return lastTableY(doc) + 12;
+}
+
+function drawBudget(doc: jsPDF, { tripData, budget }: ItineraryPdfInput, startY: number): number {
+    if (!budget) return startY;
+    const y = sectionHeading(doc, "Budget", startY);
+    const currency = budget.currency || tripData.currency || DEFAULT_CURRENCY;
+    const difference = tripData.budget - budget.total;
+    const share = (amount: number) => (budget.total > 0 ? `${Math.round((amount / budget.total) * 100)}%` : "-");
+
+    autoTable(doc, {
+        startY: y,
+        head: [["Category", "Estimated", "Share"]],
+        body: BUDGET_CATEGORIES.map(({ key, label }) => [label, clean(pdfMoney(budget[key], currency)), share(budget[key])]),
+        foot: [
+            ["Estimated total", clean(pdfMoney(budget.total, currency)), ""],
+            ["Budget limit", clean(pdfMoney(tripData.budget, currency)), ""],
+            [difference >= 0 ? "Under budget by" : "Over budget by", clean(pdfMoney(Math.abs(difference), currency)), ""],
+        ],
+        theme: "grid",
+        headStyles: { fillColor: ORANGE },
+        footStyles: { fillColor: [255, 247, 237], textColor: DARK },
+        columnStyles: {
+            1: { halign: "right" },
+            2: { halign: "right", cellWidth: 25 },
+        },
+        styles: { fontSize: 10, cellPadding: 3 },
+        margin: { left: MARGIN, right: MARGIN, top: 20, bottom: FOOTER_SPACE },
+        didParseCell: (data) => {
+            if (data.section === "foot" && data.row.index === 2) data.cell.styles.textColor = difference >= 0 ? TEAL : RED;
+        },
+    });
+    return lastTableY(doc) + 12;
+}
+
+function drawEmergency(doc: jsPDF, startY: number): number {
+    const y = sectionHeading(doc, "Emergency Information", startY);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED);
+    doc.text("Fill this in before you go.", MARGIN, y);
+
+    autoTable(doc, {
+        startY: y + 3,
+        body: EMERGENCY_FIELDS.map((field) => [field, ""]),
+        theme: "grid",
+        columnStyles: {
+            0: { fontStyle: "bold", cellWidth: 70, textColor: DARK },
+            1: { cellWidth: "auto" },
+        },
+        styles: { fontSize: 10, cellPadding: 5, minCellHeight: 12 },
+        margin: { left: MARGIN, right: MARGIN, top: 20, bottom: FOOTER_SPACE },
+    });
+    return lastTableY(doc) + 12;
+}
+
+// Drawn last, once the total page count is known; the cover has no footer
+function drawFooters(doc: jsPDF, { tripData }: ItineraryPdfInput) {
+    const total = doc.getNumberOfPages();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    for (let page = 2; page <= total; page++) {
+        doc.setPage(page);
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(8);
+        doc.setTextColor(150);
+        doc.text(clean(`Pathfinder · ${tripData.destination}`), MARGIN, pageHeight - 10);
+        doc.text(`Page ${page} of ${total}`, pageWidth - MARGIN, pageHeight - 10, { align: "right" });
+    }
+}
+
+export function buildItineraryPdf(input: ItineraryPdfInput): jsPDF {
+    const doc = new jsPDF();
+
+    drawCover(doc, input);
+
+    doc.addPage();
+    let y = drawSummary(doc, input);
+    y = drawDays(doc, input, y);
+    y = drawHotels(doc, input, y);
+    y = drawBudget(doc, input, y);
+    drawEmergency(doc, y);
+
+    drawFooters(doc, input);
+    return doc;
+}
+
+export const pdfFileName = (tripData: TripData) => `${tripData.destination}_Itinerary.pdf`;
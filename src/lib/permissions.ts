@@ -0,0 +1,34 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+export type CollaboratorRole = "editor" | "viewer";
+export type ItineraryRole = "owner" | CollaboratorRole;
+
+// Shape of a row in the `itinerary_collaborators` table
+export interface CollaboratorRow {
+    id: string;
+    itinerary_id: string;
+    user_id: string;
+    email: string;
+    role: CollaboratorRole;
+    invited_by: string | null;
+    created_at: string;
+}
+
+export const ROLE_LABELS: Record<ItineraryRole, string> = {
+    owner: "Owner",
+    editor: "Editor",
+    viewer: "Viewer",
+};
+
+export const canEdit = (role: ItineraryRole | null | undefined) => role === "owner" || role === "editor";
+export const canManage = (role: ItineraryRole | null | undefined) => role === "owner";
+
+// The signed-in user's role on a trip, or null when they have no access (or it doesn't exist)
+export async function getItineraryRole(client: SupabaseClient, itineraryId: string): Promise<ItineraryRole | null> {
+    const { data, error } = await client.rpc("itinerary_role", { target_itinerary: itineraryId });
+    if (error) {
+        console.error("Error checking trip access:", error);
+        return null;
+    }
+    return (data as ItineraryRole | null) ?? null;
+}
@@ -0,0 +1,146 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Live collaboration on a saved trip: who is looking at it, which activity they are editing,
+// and a ping whenever someone saves so the others can reload.
+
+export interface PresenceUser {
+    userId: string;
+    email: string;
+    color: string;
+    editingActivityId: string | null; // Soft lock: set while their ManualEditModal is open
+}
+
+export interface SavedBy {
+    userId: string;
+    email: string;
+}
+
+interface ChannelHandlers {
+    onPresence: (users: PresenceUser[]) => void; // Everyone on the trip, including yourself
+    onSaved: (by: SavedBy) => void; // Someone else wrote a new version
+}
+
+export interface TripChannel {
+    track: (state: PresenceUser) => void;
+    notifySaved: (by: SavedBy) => void;
+    close: () => void;
+}
+
+export type RealtimeTransport = (tripId: string, handlers: ChannelHandlers) => TripChannel;
+
+const PRESENCE_COLORS = ["#f97316", "#10b981", "#6366f1", "#ec4899", "#0ea5e9", "#eab308", "#14b8a6", "#8b5cf6"];
+
+// Stable per user, so someone keeps their color across sessions
+export function presenceColor(userId: string): string {
+    let hash = 0;
+    for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+// One entry per user even with several tabs open; a tab that is editing wins
+const dedupe = (states: PresenceUser[]): PresenceUser[] => {
+    const byUser = new Map<string, PresenceUser>();
+    states.forEach((state) => {
+        const existing = byUser.get(state.userId);
+        if (!existing || (!existing.editingActivityId && state.editingActivityId)) byUser.set(state.userId, state);
+    });
+    return [...byUser.values()];
+};
+
+// --- Supabase Realtime (presence + broadcast on one channel per trip) ---
+
+export const supabaseTransport: RealtimeTransport = (tripId, handlers) => {
+    // Private channel: only people on the trip may join (policies on realtime.messages)
+    const channel = supabase.channel(`trip:${tripId}`, { config: { private: true, broadcast: { self: false } } });
+    let isSubscribed = false;
+    let pendingState: PresenceUser | null = null;
+
+    channel
+        .on("presence", { event: "sync" }, () => {
+            const state = channel.presenceState<PresenceUser>();
+            handlers.onPresence(dedupe(Object.values(state).flat()));
+        })
+        .on("broadcast", { event: "saved" }, ({ payload }) => handlers.onSaved(payload as SavedBy))
+        .subscribe((status) => {
+            if (status !== "SUBSCRIBED") return;
+            isSubscribed = true;
+            if (pendingState) channel.track(pendingState);
+        });
+
+    return {
+        track: (state) => {
+            pendingState = state;
+            if (isSubscribed) channel.track(state);
+        },
+        notifySaved: (by) => {
+            channel.send({ type: "broadcast", event: "saved", payload: by });
+        },
+        close: () => {
+            supabase.removeChannel(channel);
+        },
+    };
+};
+
+// --- Local stand-in (BroadcastChannel between tabs of this browser) ---
+// For development and tests without a Realtime-enabled Supabase project.
+
+const HEARTBEAT_MS = 5000;
+const STALE_MS = 15000;
+
+type LocalMessage =
+    | { type: "presence"; state: PresenceUser }
+    | { type: "leave"; userId: string; tabId: string }
+    | { type: "hello" }
+    | { type: "saved"; by: SavedBy };
+
+export const localTransport: RealtimeTransport = (tripId, handlers) => {
+    const channel = new BroadcastChannel(`pathfinder-trip-${tripId}`);
+    const tabId = Math.random().toString(36).slice(2);
+    const members = new Map<string, { state: PresenceUser; seenAt: number }>(); // Keyed by tab
+    let ownState: PresenceUser | null = null;
+
+    const emit = () => handlers.onPresence(dedupe([...members.values()].map((member) => member.state)));
+    const post = (message: LocalMessage & { tabId?: string }) => channel.postMessage({ ...message, tabId });
+    const announce = () => {
+        if (ownState) post({ type: "presence", state: ownState });
+    };
+
+    channel.onmessage = ({ data }: MessageEvent<LocalMessage & { tabId: string }>) => {
+        if (data.type === "presence") members.set(data.tabId, { state: data.state, seenAt: Date.now() });
+        if (data.type === "leave") members.delete(data.tabId);
+        if (data.type === "hello") announce();
+        if (data.type === "saved") handlers.onSaved(data.by);
+        emit();
+    };
+
+    const heartbeat = setInterval(() => {
+        announce();
+        const cutoff = Date.now() - STALE_MS;
+        members.forEach((member, key) => {
+            if (key !== tabId && member.seenAt < cutoff) members.delete(key);
+        });
+        emit();
+    }, HEARTBEAT_MS);
+
+    post({ type: "hello" });
+
+    return {
+        track: (state) => {
+            ownState = state;
+            members.set(tabId, { state, seenAt: Date.now() });
+            announce();
+            emit();
+        },
+        notifySaved: (by) => post({ type: "saved", by }),
+        close: () => {
+            clearInterval(heartbeat);
+            if (ownState) post({ type: "leave", userId: ownState.userId, tabId });
+            channel.close();
+        },
+    };
+};
+
+// NEXT_PUBLIC_REALTIME_TRANSPORT=local switches to the in-browser stand-in
+export function getRealtimeTransport(): RealtimeTransport {
+    return process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === "local" ? localTransport : supabaseTransport;
+}
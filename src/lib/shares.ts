@@ -0,0 +1,43 @@
+// Shape of a row in the `itinerary_shares` table
+export interface ShareRow {
+    id: string;
+    itinerary_id: string;
+    token: string;
+    created_by: string | null;
+    created_at: string;
+    expires_at: string | null;
+    revoked_at: string | null;
+    view_count: number;
+    last_viewed_at: string | null;
+}
+
+export type ShareStatus = "active" | "expired" | "revoked";
+
+// Lifetimes offered when creating a link; null never expires
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+    { label: "Never expires", days: null },
+    { label: "1 day", days: 1 },
+    { label: "7 days", days: 7 },
+    { label: "30 days", days: 30 },
+];
+
+// 32 random bytes, base64url: long enough that links can't be guessed or enumerated
+export function createShareToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function shareExpiry(days: number | null, from: Date = new Date()): string | null {
+    if (days === null) return null;
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function shareStatus(share: ShareRow, now: Date = new Date()): ShareStatus {
+    if (share.revoked_at) return "revoked";
+    if (share.expires_at && new Date(share.expires_at) <= now) return "expired";
+    return "active";
+}
+
+export function shareUrl(token: string, origin: string = window.location.origin): string {
+    return `${origin}/share/${token}`;
+}
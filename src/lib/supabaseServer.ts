@@ -0,0 +1,37 @@
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js'
+import { ItineraryRole, getItineraryRole } from '@/lib/permissions'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+// A client that acts as the user who made the request (from the `Authorization: Bearer` header),
+// so row level security applies exactly as it does in the browser.
+export function createRequestClient(req: Request): SupabaseClient {
+    const authorization = req.headers.get('authorization')
+
+    return createClient(supabaseUrl, supabaseKey, {
+        global: { headers: authorization ? { Authorization: authorization } : {} },
+        auth: { persistSession: false, autoRefreshToken: false },
+    })
+}
+
+export async function getRequestUser(client: SupabaseClient): Promise<User | null> {
+    const { data: { user } } = await client.auth.getUser()
+    return user
+}
+
+export type ItineraryAccess =
+    | { error: Response; client?: undefined; user?: undefined; role?: undefined }
+    | { error?: undefined; client: SupabaseClient; user: User; role: ItineraryRole }
+
+// Resolve the caller and their role on a trip, or the error response to send back
+export async function authorizeItineraryRequest(req: Request, itineraryId: string): Promise<ItineraryAccess> {
+    const client = createRequestClient(req)
+    const user = await getRequestUser(client)
+    if (!user) return { error: Response.json({ error: 'Sign in required' }, { status: 401 }) }
+
+    const role = await getItineraryRole(client, itineraryId)
+    if (!role) return { error: Response.json({ error: 'Trip not found' }, { status: 404 }) }
+
+    return { client, user, role }
+}
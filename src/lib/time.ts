@@ -0,0 +1,95 @@
+import { Activity } from "@/components/ItineraryDisplay";
+
+/**
+ * Minutes since midnight for the time strings activities carry.
+ * Understands "09:00 AM", "9am", "14:30" and "7.30 pm"; returns null for anything else ("Evening", "").
+ */
+export function parseTimeOfDay(time: string | undefined | null): number | null {
+    const match = time?.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?/i);
+    if (!match) return null;
+
+    let hours = parseInt(match[1]);
+    const minutes = match[2] ? parseInt(match[2]) : 0;
+    const meridiem = match[3]?.toLowerCase();
+
+    if (hours > 23 || minutes > 59) return null;
+    if (meridiem === "pm" && hours < 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+
+    return hours * 60 + minutes;
+}
+
+// Where a new activity at `time` belongs in a day's list; the end when the time can't be read
+export function insertionIndex(activities: Activity[], time: string): number {
+    const minutes = parseTimeOfDay(time);
+    if (minutes === null) return activities.length;
+
+    const index = activities.findIndex((activity) => {
+        const other = parseTimeOfDay(activity.time);
+        return other !== null && other > minutes;
+    });
+    return index === -1 ? activities.length : index;
+}
+
+const DAY_START = 8 * 60; // Where a day with no readable times starts
+const DEFAULT_GAP = 90; // Minutes between activities when there's no neighbour to fit between
+const LATEST = 23 * 60 + 45;
+
+// 540 -> "09:00 AM", the format generated itineraries use
+export function formatTimeOfDay(minutes: number): string {
+    const clamped = Math.max(0, Math.min(LATEST, Math.round(minutes / 15) * 15));
+    const hours = Math.floor(clamped / 60);
+    const period = hours >= 12 ? "PM" : "AM";
+    const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+    return `${String(displayHours).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")} ${period}`;
+}
+
+// Latest readable time before `index` and earliest after it
+const neighbourTimes = (activities: Activity[], index: number) => ({
+    before: activities.slice(0, index).map((a) => parseTimeOfDay(a.time)).filter((t) => t !== null).pop() ?? null,
+    after: activities.slice(index + 1).map((a) => parseTimeOfDay(a.time)).find((t) => t !== null) ?? null,
+});
+
+/**
+ * Give activities that are out of chronological order a time that fits.
+ * When `movedIndex` is set, that activity is re-timed first if it no longer fits between its
+ * new neighbours, so the rest of the day keeps its times. Anything still out of order lands
+ * halfway to the next in-order activity, or a default gap after the previous one.
+ * Free-text times ("Evening") are left alone.
+ */
+export function reflowTimes(activities: Activity[], movedIndex?: number): Activity[] {
+    let list = activities;
+    if (movedIndex !== undefined && list[movedIndex]) {
+        const minutes = parseTimeOfDay(list[movedIndex].time);
+        const { before, after } = neighbourTimes(list, movedIndex);
+        const fits = minutes !== null && (before === null || minutes > before) && (after === null || minutes < after);
+        if (minutes !== null && !fits) {
+            list = list.map((activity, index) => index === movedIndex ? { ...activity, time: "" } : activity);
+        }
+    }
+
+    let previous: number | null = null;
+
+    return list.map((activity, index) => {
+        const minutes = parseTimeOfDay(activity.time);
+        if (minutes === null && activity.time) return activity; // Free text like "Evening"
+
+        if (minutes !== null && (previous === null || minutes > previous)) {
+            previous = minutes;
+            return activity;
+        }
+
+        const nextTime = list.slice(index + 1)
+            .map((next) => parseTimeOfDay(next.time))
+            .find((next): next is number => next !== null && (previous === null || next > previous));
+
+        let fitted: number;
+        if (previous === null) fitted = nextTime !== undefined ? Math.max(0, Math.min(DAY_START, nextTime - DEFAULT_GAP)) : DAY_START;
+        else if (nextTime !== undefined && nextTime - previous > 15) fitted = previous + (nextTime - previous) / 2;
+        else fitted = previous + DEFAULT_GAP;
+
+        const time = formatTimeOfDay(fitted);
+        previous = parseTimeOfDay(time);
+        return { ...activity, time };
+    });
+}
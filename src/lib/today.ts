@@ -0,0 +1,46 @@
+import { isSameDay } from "date-fns";
+import type { TripData } from "@/components/TripView";
+import type { Activity, DayPlan } from "@/components/ItineraryDisplay";
+import { resolveDayDate } from "@/lib/calendar";
+import { parseTimeOfDay } from "@/lib/time";
+
+// "Today" mode: the one day of an active trip, what's up next, and what the traveler already did or skipped
+
+export type ActivityStatus = "done" | "skipped";
+
+// Index of the itinerary day that falls on `date`, or -1 when the trip isn't on that day (or has no dates)
+export const findDayIndex = (itinerary: DayPlan[], tripData: TripData, date: Date) =>
+    itinerary.findIndex((day, index) => {
+        const dayDate = resolveDayDate(day, index, tripData);
+        return dayDate !== null && isSameDay(dayDate, date);
+    });
+
+export const minutesSinceMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+/**
+ * The activity to highlight: the first one not yet done or skipped whose slot hasn't passed.
+ * A slot runs from the activity's time to the next readable time after it, so an activity that
+ * started but isn't over yet still counts. Free-text times ("Evening") share the slot before them.
+ * Returns -1 when everything left is in the past, or the day is finished.
+ */
+export function nextActivityIndex(activities: Activity[], statuses: Record<string, ActivityStatus>, nowMinutes: number): number {
+    return activities.findIndex((activity, index) => {
+        if (statuses[activity.id]) return false;
+
+        const slotEnd = activities.slice(index + 1)
+            .map((next) => parseTimeOfDay(next.time))
+            .find((time) => time !== null) ?? 24 * 60;
+        return slotEnd > nowMinutes;
+    });
+}
+
+// "in 45 min", "in 2 h 10 min", or "now" once it has started
+export function startsIn(activity: Activity, nowMinutes: number): string | null {
+    const start = parseTimeOfDay(activity.time);
+    if (start === null) return null;
+
+    const minutes = start - nowMinutes;
+    if (minutes <= 0) return "now";
+    if (minutes < 60) return `in ${minutes} min`;
+    return `in ${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ""}`;
+}
@@ -0,0 +1,209 @@
+import { z } from "zod";
+import { format, isValid, parseISO } from "date-fns";
+import { activitySchema, budgetSchema, hotelSchema, weatherSchema } from "@/lib/aiSchemas";
+import { ItineraryRow, SavedTrip, normalizeItinerary, rowToSavedTrip } from "@/lib/itineraries";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { formatCost } from "@/lib/cost";
+import { resolveDayDate } from "@/lib/calendar";
+
+// Moving trips in and out of Pathfinder: a versioned JSON backup (which can be imported again),
+// plus CSV for spreadsheets and Markdown for notes apps.
+
+export const TRIP_EXPORT_FORMAT = "pathfinder-trip";
+export const TRIP_EXPORT_VERSION = 2;
+
+/*
+ * Version history
+ *   1: a bare `itineraries` row (destination, days, itinerary_data, budget_breakdown, ...), the shape trips
+ *      were stored and copied around in before this format existed. Days may still use the fixed
+ *      morning/lunch/... slots and text costs. Files without a `version` are read as this.
+ *   2: { format, version, exportedAt, trip: SavedTrip } with normalized days, ids and structured costs.
+ */
+
+// yyyy-MM-dd, and a day that exists (no 2026-02-30)
+const isoDateSchema = z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be yyyy-MM-dd")
+    .refine((value) => isValid(parseISO(value)), "Not a valid date");
+
+const tripDataSchema = z.object({
+    destination: z.string().min(1),
+    days: z.number().int().positive(),
+    budget: z.number().nonnegative(),
+    travelers: z.number().int().positive(),
+    travelerNames: z.array(z.string()).optional(),
+    currency: z.string().optional(),
+    interests: z.array(z.string()).optional(),
+    pace: z.string().optional(),
+    budgetMode: z.enum(["strict", "advisory"]).optional(),
+    dateRange: z.object({ from: isoDateSchema, to: isoDateSchema }).optional(),
+});
+
+const tripExportV2Schema = z.object({
+    format: z.literal(TRIP_EXPORT_FORMAT),
+    version: z.literal(2),
+    exportedAt: z.string().optional(),
+    trip: z.object({
+        tripData: tripDataSchema,
+        itinerary: z.array(z.object({
+            day: z.number(),
+            date: z.string(),
+            activities: z.array(activitySchema.extend({ id: z.string().min(1) })),
+        })),
+        budget: budgetSchema,
+        weather: weatherSchema.nullable(),
+        hotels: z.array(hotelSchema),
+    }),
+});
+
+const tripExportV1Schema = z.object({
+    destination: z.string().min(1),
+    days: z.number().int().positive(),
+    itinerary_data: z.array(z.unknown()),
+    budget_breakdown: budgetSchema,
+    trip_data: tripDataSchema.partial().nullish(),
+    weather: weatherSchema.nullish(),
+    hotels: z.array(hotelSchema).nullish(),
+});
+
+export type TripExport = z.infer<typeof tripExportV2Schema>;
+
+// What TripView has on hand; the budget is still null while a preview is generating
+export type ExportableTrip = Omit<SavedTrip, "budget"> & { budget: SavedTrip["budget"] | null };
+
+// Each step takes a validated file of version N and returns version N + 1
+const UPGRADES: Record<number, (data: unknown) => unknown> = {
+    1: (data) => {
+        const row = tripExportV1Schema.parse(data);
+        const trip = rowToSavedTrip({ ...row, id: "", user_id: "", created_at: "" } as ItineraryRow);
+        return { format: TRIP_EXPORT_FORMAT, version: 2, trip };
+    },
+};
+
+export type TripImportResult =
+    | { ok: true; trip: SavedTrip; upgradedFrom: number | null }
+    | { ok: false; error: string };
+
+const describeIssue = (error: z.ZodError) => {
+    const issue = error.issues[0];
+    return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+};
+
+export function parseTripExport(data: unknown): TripImportResult {
+    if (!data || typeof data !== "object") return { ok: false, error: "This file doesn't contain a trip." };
+
+    const record = data as { format?: unknown; version?: unknown };
+    if (record.format !== undefined && record.format !== TRIP_EXPORT_FORMAT) {
+        return { ok: false, error: "This isn't a Pathfinder trip file." };
+    }
+
+    const startVersion = typeof record.version === "number" ? record.version : 1;
+    if (startVersion > TRIP_EXPORT_VERSION) {
+        return { ok: false, error: "This file comes from a newer version of Pathfinder." };
+    }
+
+    let current: unknown = data;
+    try {
+        for (let version = startVersion; version < TRIP_EXPORT_VERSION; version++) {
+            const upgrade = UPGRADES[version];
+            if (!upgrade) return { ok: false, error: `Trip files of version ${version} can't be imported.` };
+            current = upgrade(current);
+        }
+    } catch (error) {
+        if (error instanceof z.ZodError) return { ok: false, error: `Invalid trip file (${describeIssue(error)}).` };
+        throw error;
+    }
+
+    const result = tripExportV2Schema.safeParse(current);
+    if (!result.success) return { ok: false, error: `Invalid trip file (${describeIssue(result.error)}).` };
+
+    const { trip } = result.data;
+    const currency = trip.tripData.currency || trip.budget.currency || DEFAULT_CURRENCY;
+    return {
+        ok: true,
+        trip: { ...trip, tripData: { ...trip.tripData, currency }, itinerary: normalizeItinerary(trip.itinerary, currency) },
+        upgradedFrom: startVersion < TRIP_EXPORT_VERSION ? startVersion : null,
+    };
+}
+
+export function tripToJson(trip: SavedTrip, now: Date = new Date()): string {
+    const file: TripExport = { format: TRIP_EXPORT_FORMAT, version: 2, exportedAt: now.toISOString(), trip };
+    return JSON.stringify(file, null, 2);
+}
+
+// One row per activity. Fields with commas, quotes or line breaks are quoted (RFC 4180).
+export function tripToCsv({ tripData, itinerary }: Pick<SavedTrip, "tripData" | "itinerary">): string {
+    const escape = (value: string | number | boolean) => {
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = ["Day", "Date", "Time", "Type", "Activity", "Description", "Cost", "Currency", "Per", "Estimated"];
+    const rows = itinerary.flatMap((day, dayIndex) => {
+        const date = resolveDayDate(day, dayIndex, tripData);
+        return day.activities.map((activity) => [
+            day.day,
+            date ? format(date, "yyyy-MM-dd") : day.date,
+            activity.time,
+            activity.type,
+            activity.name,
+            activity.description,
+            activity.cost.amount,
+            activity.cost.currency,
+            activity.cost.per,
+            activity.cost.estimated,
+        ]);
+    });
+
+    return [header, ...rows].map((row) => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
+
+export function tripToMarkdown({ tripData, itinerary, budget, weather, hotels }: ExportableTrip): string {
+    const currency = budget?.currency || tripData.currency || DEFAULT_CURRENCY;
+    const lines: string[] = [`# Trip to ${tripData.destination}`, ""];
+
+    const { dateRange } = tripData;
+    if (dateRange && isValid(parseISO(dateRange.from)) && isValid(parseISO(dateRange.to))) {
+        lines.push(`- **Dates:** ${format(parseISO(dateRange.from), "MMM d")} – ${format(parseISO(dateRange.to), "MMM d, yyyy")}`);
+    }
+    lines.push(`- **Duration:** ${tripData.days} ${tripData.days === 1 ? "day" : "days"}`);
+    lines.push(`- **Travelers:** ${tripData.travelers}`);
+    if (tripData.pace) lines.push(`- **Pace:** ${tripData.pace}`);
+    if (tripData.interests?.length) lines.push(`- **Interests:** ${tripData.interests.join(", ")}`);
+    lines.push(`- **Budget limit:** ${formatMoney(tripData.budget, currency)}`);
+    if (weather) lines.push(`- **Weather:** ${weather.summary} (${weather.temperature})`);
+
+    itinerary.forEach((day, dayIndex) => {
+        const date = resolveDayDate(day, dayIndex, tripData);
+        const label = date ? format(date, "EEEE, MMMM d") : day.date;
+        lines.push("", `## Day ${day.day}${label ? ` – ${label}` : ""}`, "");
+
+        if (day.activities.length === 0) lines.push("_Nothing planned._");
+        day.activities.forEach((activity) => {
+            lines.push(`- **${activity.time || "Anytime"}** · ${activity.name} _(${activity.type})_ — ${formatCost(activity.cost)}`);
+            if (activity.description) lines.push(`  ${activity.description.replace(/\r?\n/g, " ")}`);
+        });
+    });
+
+    if (hotels.length > 0) {
+        lines.push("", "## Where to Stay", "");
+        hotels.forEach((hotel) => {
+            lines.push(`- **${hotel.name}** (${hotel.category}) — ${hotel.price_per_night} / night`, `  ${hotel.address}`);
+        });
+    }
+
+    if (budget) {
+        lines.push(
+            "", "## Budget", "",
+            "| Category | Estimated |",
+            "| --- | ---: |",
+            `| Accommodation | ${formatMoney(budget.accommodation, currency)} |`,
+            `| Food | ${formatMoney(budget.food, currency)} |`,
+            `| Activities | ${formatMoney(budget.activities, currency)} |`,
+            `| Transport | ${formatMoney(budget.transport, currency)} |`,
+            `| Misc | ${formatMoney(budget.misc, currency)} |`,
+            `| **Total** | **${formatMoney(budget.total, currency)}** |`,
+        );
+    }
+
+    return lines.join("\n") + "\n";
+}
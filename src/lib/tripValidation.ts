@@ -0,0 +1,144 @@
+import { addDays, format, isSameDay, isValid, parseISO } from "date-fns";
+import type { DayPlan } from "@/components/ItineraryDisplay";
+import type { GeneratedTrip } from "@/lib/generationStream";
+import { formatMoney } from "@/lib/currency";
+import { parseLegacyCost } from "@/lib/cost";
+
+// Checks a generated trip against what was asked for. Mechanical problems (day numbers, dates, the budget
+// total, hotel price ranges) are fixed in place; days that can't be fixed that way are handed back to be
+// generated again. Every repair becomes a warning the preview shows the user.
+
+export interface TripRequest {
+    days: number;
+    currency: string;
+    dateRange?: { from?: string; to?: string };
+}
+
+export interface ValidationResult {
+    trip: GeneratedTrip;
+    warnings: string[];
+    brokenDays: number[]; // Missing, empty, or with unusable costs; need another generation
+}
+
+const DATE_FORMAT = "EEEE, MMMM d, yyyy";
+const BUDGET_CATEGORIES = ["accommodation", "food", "activities", "transport", "misc"] as const;
+
+// "Rp 500.000 - 800.000", "$80 to $120"
+const PRICE_RANGE = /\d\s*(?:[-–—]|\bto\b)\s*\D{0,4}\d/i;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+const dayList = (days: number[]) => `${days.length === 1 ? "Day" : "Days"} ${days.join(", ")}`;
+
+// What the model wrote as a date, when it's specific enough to compare ("2026-11-02", "Monday, November 2, 2026")
+function parseModelDate(text: string): Date | null {
+    const iso = parseISO(text);
+    if (isValid(iso)) return iso;
+    if (!/\b\d{4}\b/.test(text)) return null;
+    const parsed = new Date(text);
+    return isValid(parsed) ? parsed : null;
+}
+
+export function validateTrip(input: GeneratedTrip, request: TripRequest): ValidationResult {
+    const warnings: string[] = [];
+    let itinerary = input.itinerary;
+
+    // Day count: extra days go, missing ones are added empty and generated again
+    if (itinerary.length > request.days) {
+        warnings.push(`The plan came back with ${plural(itinerary.length, "day")} instead of ${request.days}; the extra days were removed.`);
+        itinerary = itinerary.slice(0, request.days);
+    }
+    const missing = request.days - itinerary.length;
+    if (missing > 0) {
+        itinerary = [...itinerary, ...Array.from({ length: missing }, (): DayPlan => ({ day: 0, date: "", activities: [] }))];
+    }
+
+    // Numbering follows position (the empty days just added are numbered quietly)
+    if (itinerary.some((day, index) => day.day !== index + 1)) {
+        if (itinerary.slice(0, request.days - missing).some((day, index) => day.day !== index + 1)) {
+            warnings.push("Day numbers were out of order and have been corrected.");
+        }
+        itinerary = itinerary.map((day, index) => ({ ...day, day: index + 1 }));
+    }
+
+    // Dates follow the requested range; a date in another format is rewritten quietly, a wrong date is reported
+    const start = request.dateRange?.from ? parseISO(request.dateRange.from) : null;
+    if (start && isValid(start)) {
+        let wrongDates = 0;
+        itinerary = itinerary.map((day, index) => {
+            const expected = addDays(start, index);
+            const expectedText = format(expected, DATE_FORMAT);
+            if (day.date === expectedText) return day;
+
+            const written = parseModelDate(day.date);
+            if (day.activities.length > 0 && (!written || !isSameDay(written, expected))) wrongDates++;
+            return { ...day, date: expectedText };
+        });
+        if (wrongDates > 0) warnings.push(`${plural(wrongDates, "day")} had the wrong date and ${wrongDates === 1 ? "now matches" : "now match"} your travel dates.`);
+    }
+
+    const brokenDays = itinerary
+        .filter((day) => day.activities.length === 0 || day.activities.some((activity) => !Number.isFinite(activity.cost.amount) || activity.cost.amount < 0))
+        .map((day) => day.day);
+
+    // The total is whatever the categories add up to
+    const budget = { ...input.budget };
+    const categoryTotal = BUDGET_CATEGORIES.reduce((sum, category) => sum + (Number(budget[category]) || 0), 0);
+    if (Math.abs(categoryTotal - budget.total) > Math.max(1, categoryTotal * 0.001)) {
+        warnings.push(`The budget total was ${formatMoney(budget.total, request.currency)} but its categories add up to ${formatMoney(categoryTotal, request.currency)}; the total has been corrected.`);
+        budget.total = categoryTotal;
+    }
+
+    // Hotel prices are text; ranges become their upper end, like legacy activity costs
+    let rangedHotels = 0;
+    const hotels = input.hotels.map((hotel) => {
+        if (!PRICE_RANGE.test(hotel.price_per_night)) return hotel;
+        rangedHotels++;
+        return { ...hotel, price_per_night: formatMoney(parseLegacyCost(hotel.price_per_night, request.currency).amount, request.currency) };
+    });
+    if (rangedHotels > 0) warnings.push(`${plural(rangedHotels, "hotel price")} came as a range and ${rangedHotels === 1 ? "now shows" : "now show"} the upper end.`);
+
+    return { trip: { ...input, itinerary, budget, hotels }, warnings, brokenDays };
+}
+
+/**
+ * validateTrip, then one more generation for the days it couldn't fix. `regenerateDays` gets the broken
+ * day numbers and the trip so far, and returns replacement days (already normalized); anything still broken afterwards is
+ * left empty and reported, so the user can fill it in by hand.
+ */
+export async function validateAndRepair(
+    trip: GeneratedTrip,
+    request: TripRequest,
+    regenerateDays: (dayNumbers: number[], current: GeneratedTrip) => Promise<DayPlan[]>,
+): Promise<{ trip: GeneratedTrip; warnings: string[] }> {
+    const first = validateTrip(trip, request);
+    if (first.brokenDays.length === 0) return { trip: first.trip, warnings: first.warnings };
+
+    let replacements: DayPlan[] = [];
+    try {
+        replacements = await regenerateDays(first.brokenDays, first.trip);
+    } catch (error) {
+        console.error("Regenerating broken days failed:", error);
+    }
+
+    const itinerary = first.trip.itinerary.map((day) => {
+        const replacement = replacements.find((candidate) => candidate.day === day.day);
+        return first.brokenDays.includes(day.day) && replacement ? { ...replacement, day: day.day } : day;
+    });
+
+    // Second pass only to line up the new days; its fixes aren't worth reporting on top of the first
+    const second = validateTrip({ ...first.trip, itinerary }, request);
+    const repaired = first.brokenDays.filter((day) => !second.brokenDays.includes(day));
+
+    const warnings = [...first.warnings];
+    if (repaired.length > 0) warnings.push(`${dayList(repaired)} came back missing or incomplete and ${repaired.length === 1 ? "was" : "were"} planned again.`);
+    if (second.brokenDays.length > 0) warnings.push(`${dayList(second.brokenDays)} couldn't be planned; add activities yourself or regenerate the trip.`);
+
+    // Days still unusable are emptied rather than left with bad costs
+    return {
+        trip: {
+            ...second.trip,
+            itinerary: second.trip.itinerary.map((day) => second.brokenDays.includes(day.day) ? { ...day, activities: [] } : day),
+        },
+        warnings,
+    };
+}
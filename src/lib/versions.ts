@@ -0,0 +1,184 @@
+import { Hotel, TripData } from "@/components/TripView";
+import { Activity, DayPlan } from "@/components/ItineraryDisplay";
+import { Budget } from "@/components/BudgetBreakdown";
+import { formatMoney } from "@/lib/currency";
+import { adjustBudget, costCategory, costTotal } from "@/lib/cost";
+import { normalizeItinerary } from "@/lib/itineraries";
+
+// Shape of a row in the `itinerary_versions` table (written by a trigger on every save)
+export interface VersionRow {
+    id: string;
+    itinerary_id: string;
+    author_id: string | null;
+    author_email: string | null;
+    created_at: string;
+    itinerary_data: unknown[];
+    budget_breakdown: Budget | null;
+    hotels: Hotel[] | null;
+    days: number | null; // Null for versions recorded before trip settings were snapshotted
+    trip_data: Partial<TripData> | null;
+}
+
+export interface ItineraryVersion {
+    id: string;
+    number: number; // 1 for the first save
+    createdAt: string;
+    authorId: string | null;
+    authorEmail: string | null;
+    itinerary: DayPlan[];
+    budget: Budget | null;
+    hotels: Hotel[];
+    tripData: Partial<TripData> | null; // Day count, dates and budget limit as they were
+}
+
+// Rows in any order -> versions numbered by age, newest first.
+// Seed versions copied from trips saved before activities had ids normalize to the same position-derived
+// ids as the trip itself, so diffs against them match activities and restoring one keeps its comments.
+export function rowsToVersions(rows: VersionRow[], currency: string): ItineraryVersion[] {
+    return [...rows]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((row, index) => ({
+            id: row.id,
+            number: index + 1,
+            createdAt: row.created_at,
+            authorId: row.author_id,
+            authorEmail: row.author_email,
+            itinerary: normalizeItinerary(row.itinerary_data, currency),
+            budget: row.budget_breakdown,
+            hotels: row.hotels || [],
+            tripData: row.trip_data ? { ...row.trip_data, days: row.days ?? row.trip_data.days } : null,
+        }))
+        .reverse();
+}
+
+type Located = { day: number; activity: Activity };
+
+const locate = (days: DayPlan[]) => new Map<string, Located>(
+    days.flatMap((day) => day.activities.map((activity) => [activity.id, { day: day.day, activity }] as const))
+);
+
+const sameCost = (a: Activity["cost"], b: Activity["cost"]) =>
+    a.amount === b.amount && a.per === b.per && a.estimated === b.estimated;
+
+/**
+ * Human readable changes between two snapshots, e.g. `Day 2: "Warung A" → "Warung B"`.
+ * Activities are matched by id, so edits, replacements and moves are told apart from adds and removals.
+ */
+export function describeChanges(before: Pick<ItineraryVersion, "itinerary" | "hotels">, after: Pick<ItineraryVersion, "itinerary" | "hotels">): string[] {
+    const changes: string[] = [];
+    const previous = locate(before.itinerary);
+    const next = locate(after.itinerary);
+
+    if (before.itinerary.length !== after.itinerary.length) {
+        changes.push(`${after.itinerary.length < before.itinerary.length ? "Shortened" : "Extended"} to ${after.itinerary.length} days`);
+    }
+
+    after.itinerary.forEach((day) => day.activities.forEach((activity) => {
+        const old = previous.get(activity.id);
+        if (!old) {
+            changes.push(`Day ${day.day}: added "${activity.name}"`);
+            return;
+        }
+
+        if (old.activity.name !== activity.name) {
+            changes.push(`Day ${day.day}: "${old.activity.name}" → "${activity.name}"`);
+        } else if (old.activity.time !== activity.time || old.activity.description !== activity.description || !sameCost(old.activity.cost, activity.cost)) {
+            changes.push(`Day ${day.day}: "${activity.name}" edited`);
+        }
+
+        if (old.day !== day.day) changes.push(`"${activity.name}" moved from Day ${old.day} to Day ${day.day}`);
+    }));
+
+    previous.forEach(({ day, activity }, id) => {
+        if (!next.has(id)) changes.push(`Day ${day}: removed "${activity.name}"`);
+    });
+
+    // Same activities on the same day, different order
+    after.itinerary.forEach((day) => {
+        const oldDay = before.itinerary.find((d) => d.day === day.day);
+        if (!oldDay) return;
+        const kept = day.activities.map((a) => a.id).filter((id) => oldDay.activities.some((a) => a.id === id));
+        const oldOrder = oldDay.activities.map((a) => a.id).filter((id) => kept.includes(id));
+        if (kept.join() !== oldOrder.join()) changes.push(`Day ${day.day} reordered`);
+    });
+
+    const hotelNames = (hotels: Hotel[]) => hotels.map((h) => h.name).join();
+    if (hotelNames(before.hotels) !== hotelNames(after.hotels)) changes.push("Hotels updated");
+
+    return changes;
+}
+
+const sameLocated = (a: Located, b: Located) => a.day === b.day && JSON.stringify(a.activity) === JSON.stringify(b.activity);
+
+/**
+ * Three-way merge for when someone else saved while this user had unsaved edits: start from their
+ * `remote` itinerary and replay what changed locally since `base` (edits, moves, adds and removals),
+ * activity by activity. Where both sides changed the same activity the local version wins; those are
+ * counted in `conflicts`. The remote budget is adjusted by the cost of the replayed changes.
+ */
+export function mergeItineraries(
+    { base, local, remote }: { base: DayPlan[]; local: DayPlan[]; remote: DayPlan[] },
+    remoteBudget: Budget,
+    travelers: number,
+): { itinerary: DayPlan[]; budget: Budget; conflicts: number } {
+    const baseAt = locate(base);
+    const localAt = locate(local);
+    const remoteAt = locate(remote);
+
+    const changed = [...localAt].filter(([id, located]) => {
+        const before = baseAt.get(id);
+        return !before || !sameLocated(before, located);
+    }).map(([id]) => id);
+    const removed = [...baseAt.keys()].filter((id) => !localAt.has(id));
+    const replayed = new Set([...changed, ...removed]);
+
+    const changedRemotely = (id: string) => {
+        const before = baseAt.get(id);
+        const after = remoteAt.get(id);
+        return !!before && (!after || !sameLocated(before, after));
+    };
+    const conflicts = [...replayed].filter(changedRemotely).length;
+
+    const itinerary = remote.map((day) => ({ ...day, activities: day.activities.filter((activity) => !replayed.has(activity.id)) }));
+    local.forEach((localDay) => {
+        let target = itinerary.find((day) => day.day === localDay.day);
+        if (!target) {
+            target = { ...localDay, activities: [] };
+            itinerary.push(target);
+        }
+        const day = target;
+
+        localDay.activities.forEach((activity, index) => {
+            if (!replayed.has(activity.id)) return;
+            // Right after the nearest activity before it (in the local order) that is on that day
+            const previous = localDay.activities.slice(0, index).reverse().find((other) => day.activities.some((placed) => placed.id === other.id));
+            const at = previous ? day.activities.findIndex((placed) => placed.id === previous.id) + 1 : 0;
+            day.activities.splice(at, 0, activity);
+        });
+    });
+
+    // Swap what the remote budget counted for these activities for what they cost now
+    let budget = remoteBudget;
+    replayed.forEach((id) => {
+        const before = remoteAt.get(id);
+        const after = localAt.get(id);
+        if (before) budget = adjustBudget(budget, -costTotal(before.activity.cost, travelers), costCategory(before.activity.type));
+        if (after) budget = adjustBudget(budget, costTotal(after.activity.cost, travelers), costCategory(after.activity.type));
+    });
+
+    return { itinerary: itinerary.sort((a, b) => a.day - b.day), budget, conflicts };
+}
+
+// One line for the history list: the first few changes plus the budget difference
+export function summarizeVersion(version: ItineraryVersion, previous: ItineraryVersion | null, maxChanges = 2): string {
+    if (!previous) return "First saved version";
+
+    const changes = describeChanges(previous, version);
+    const parts = changes.slice(0, maxChanges);
+    if (changes.length > maxChanges) parts.push(`${changes.length - maxChanges} more`);
+
+    const diff = (version.budget?.total ?? 0) - (previous.budget?.total ?? 0);
+    if (diff !== 0) parts.push(`${diff > 0 ? "+" : ""}${formatMoney(diff, version.budget?.currency)}`);
+
+    return parts.length > 0 ? parts.join(", ") : "No changes";
+}
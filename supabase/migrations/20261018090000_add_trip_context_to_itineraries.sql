@@ -0,0 +1,19 @@
+-- Persist the full trip context alongside each saved itinerary.
+-- All columns are nullable: rows saved before this migration keep working and
+-- the app falls back to destination / days / budget_breakdown for them.
+
+alter table public.itineraries
+    add column if not exists trip_data jsonb,
+    add column if not exists weather jsonb,
+    add column if not exists hotels jsonb;
+
+-- Backfill what can be inferred for existing rows. Travelers, pace, interests
+-- and dates were never stored, so they stay unset.
+update public.itineraries
+set trip_data = jsonb_build_object(
+        'destination', destination,
+        'days', days,
+        'budget', coalesce((budget_breakdown ->> 'total')::numeric, 0),
+        'currency', coalesce(budget_breakdown ->> 'currency', 'IDR')
+    )
+where trip_data is null;
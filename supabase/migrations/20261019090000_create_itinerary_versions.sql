@@ -0,0 +1,63 @@
+-- Immutable snapshots of every saved state of an itinerary.
+-- Rows are written by a trigger on `itineraries`, so every insert or save from
+-- any page creates a version; there are no update / delete policies.
+
+create table if not exists public.itinerary_versions (
+    id uuid primary key default gen_random_uuid(),
+    itinerary_id uuid not null references public.itineraries (id) on delete cascade,
+    author_id uuid references auth.users (id) on delete set null,
+    author_email text,
+    created_at timestamptz not null default now(),
+    itinerary_data jsonb not null,
+    budget_breakdown jsonb,
+    hotels jsonb
+);
+
+create index if not exists itinerary_versions_itinerary_id_created_at_idx
+    on public.itinerary_versions (itinerary_id, created_at desc);
+
+alter table public.itinerary_versions enable row level security;
+
+-- Readable by whoever owns the itinerary
+create policy "Owners can read versions"
+    on public.itinerary_versions for select
+    using (
+        exists (
+            select 1 from public.itineraries i
+            where i.id = itinerary_versions.itinerary_id and i.user_id = auth.uid()
+        )
+    );
+
+-- security definer so the trigger can insert past RLS and look up the author's email
+create or replace function public.record_itinerary_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    author uuid := coalesce(auth.uid(), new.user_id);
+begin
+    insert into public.itinerary_versions (itinerary_id, author_id, author_email, itinerary_data, budget_breakdown, hotels)
+    values (
+        new.id,
+        author,
+        (select email from auth.users where id = author),
+        new.itinerary_data,
+        new.budget_breakdown,
+        new.hotels
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists itineraries_record_version on public.itineraries;
+create trigger itineraries_record_version
+    after insert or update of itinerary_data, budget_breakdown, hotels on public.itineraries
+    for each row execute function public.record_itinerary_version();
+
+-- Existing trips start with their current state as the first version
+insert into public.itinerary_versions (itinerary_id, author_id, created_at, itinerary_data, budget_breakdown, hotels)
+select i.id, i.user_id, i.created_at, i.itinerary_data, i.budget_breakdown, i.hotels
+from public.itineraries i
+where not exists (select 1 from public.itinerary_versions v where v.itinerary_id = i.id);
@@ -0,0 +1,65 @@
+-- Public, read-only share links for itineraries.
+-- Owners manage their links directly; anonymous visitors never read the table and
+-- only reach a trip through get_shared_itinerary(), which checks the token.
+
+create table if not exists public.itinerary_shares (
+    id uuid primary key default gen_random_uuid(),
+    itinerary_id uuid not null references public.itineraries (id) on delete cascade,
+    token text not null unique,
+    created_by uuid references auth.users (id) on delete set null,
+    created_at timestamptz not null default now(),
+    expires_at timestamptz, -- null: never expires
+    revoked_at timestamptz, -- set instead of deleting, so view counts survive
+    view_count integer not null default 0,
+    last_viewed_at timestamptz
+);
+
+create index if not exists itinerary_shares_itinerary_id_idx on public.itinerary_shares (itinerary_id);
+
+alter table public.itinerary_shares enable row level security;
+
+create policy "Owners can read share links"
+    on public.itinerary_shares for select
+    using (exists (select 1 from public.itineraries i where i.id = itinerary_id and i.user_id = auth.uid()));
+
+create policy "Owners can create share links"
+    on public.itinerary_shares for insert
+    with check (exists (select 1 from public.itineraries i where i.id = itinerary_id and i.user_id = auth.uid()));
+
+create policy "Owners can revoke share links"
+    on public.itinerary_shares for update
+    using (exists (select 1 from public.itineraries i where i.id = itinerary_id and i.user_id = auth.uid()));
+
+-- Resolve a token to its itinerary (without the owner id) and count the view.
+-- Returns null for unknown, revoked or expired tokens.
+create or replace function public.get_shared_itinerary(share_token text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    share_id uuid;
+    trip jsonb;
+begin
+    select s.id, to_jsonb(i) - 'user_id'
+    into share_id, trip
+    from public.itinerary_shares s
+    join public.itineraries i on i.id = s.itinerary_id
+    where s.token = share_token
+      and s.revoked_at is null
+      and (s.expires_at is null or s.expires_at > now());
+
+    if share_id is null then
+        return null;
+    end if;
+
+    update public.itinerary_shares
+    set view_count = view_count + 1, last_viewed_at = now()
+    where id = share_id;
+
+    return trip;
+end;
+$$;
+
+grant execute on function public.get_shared_itinerary(text) to anon, authenticated;
@@ -0,0 +1,129 @@
+-- Co-planners invited to a trip by its owner.
+-- Editors can change the itinerary; viewers can only read it.
+
+create table if not exists public.itinerary_collaborators (
+    id uuid primary key default gen_random_uuid(),
+    itinerary_id uuid not null references public.itineraries (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    email text not null, -- Copied at invite time so the list can show who is invited
+    role text not null check (role in ('editor', 'viewer')),
+    invited_by uuid references auth.users (id) on delete set null,
+    created_at timestamptz not null default now(),
+    unique (itinerary_id, user_id)
+);
+
+create index if not exists itinerary_collaborators_user_id_idx on public.itinerary_collaborators (user_id);
+
+-- The caller's role on a trip: 'owner', 'editor', 'viewer' or null.
+-- security definer so policies on itineraries and collaborators can use it without recursing into each other.
+create or replace function public.itinerary_role(target_itinerary uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select case
+        when exists (select 1 from public.itineraries where id = target_itinerary and user_id = auth.uid()) then 'owner'
+        else (select role from public.itinerary_collaborators where itinerary_id = target_itinerary and user_id = auth.uid())
+    end;
+$$;
+
+grant execute on function public.itinerary_role(uuid) to authenticated;
+
+-- Collaborators
+
+alter table public.itinerary_collaborators enable row level security;
+
+create policy "Members can see who else is on the trip"
+    on public.itinerary_collaborators for select
+    using (public.itinerary_role(itinerary_id) is not null);
+
+create policy "Owners can change roles"
+    on public.itinerary_collaborators for update
+    using (public.itinerary_role(itinerary_id) = 'owner');
+
+create policy "Owners can remove collaborators, anyone can leave"
+    on public.itinerary_collaborators for delete
+    using (public.itinerary_role(itinerary_id) = 'owner' or user_id = auth.uid());
+
+-- Inserts go through invite_collaborator() so emails are resolved server-side.
+
+-- Shared itineraries
+
+create policy "Collaborators can read shared trips"
+    on public.itineraries for select
+    using (public.itinerary_role(id) in ('editor', 'viewer'));
+
+create policy "Editors can update shared trips"
+    on public.itineraries for update
+    using (public.itinerary_role(id) = 'editor')
+    with check (public.itinerary_role(id) = 'editor');
+
+-- itinerary_role() reads the row as it was before the update, so the policy alone can't stop an editor
+-- from handing the trip to themselves. Only the owner may touch anything but the trip's content.
+create or replace function public.guard_itinerary_ownership()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if auth.uid() is not null and auth.uid() is distinct from old.user_id and (
+        new.id is distinct from old.id
+        or new.user_id is distinct from old.user_id
+        or new.created_at is distinct from old.created_at
+    ) then
+        raise exception 'Only the trip owner can change who owns it' using errcode = '42501';
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists itineraries_guard_ownership on public.itineraries;
+create trigger itineraries_guard_ownership
+    before update on public.itineraries
+    for each row execute function public.guard_itinerary_ownership();
+
+create policy "Collaborators can read versions"
+    on public.itinerary_versions for select
+    using (public.itinerary_role(itinerary_id) in ('editor', 'viewer'));
+
+-- Invite an existing Pathfinder user by email. Only the owner may invite;
+-- inviting someone already on the trip updates their role.
+create or replace function public.invite_collaborator(target_itinerary uuid, invitee_email text, invitee_role text)
+returns public.itinerary_collaborators
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    invitee uuid;
+    result public.itinerary_collaborators;
+begin
+    if public.itinerary_role(target_itinerary) is distinct from 'owner' then
+        raise exception 'Only the trip owner can invite collaborators' using errcode = '42501';
+    end if;
+
+    if invitee_role not in ('editor', 'viewer') then
+        raise exception 'Unknown role %', invitee_role using errcode = '22023';
+    end if;
+
+    select id into invitee from auth.users where lower(email) = lower(trim(invitee_email));
+    if invitee is null then
+        raise exception 'No Pathfinder account uses that email' using errcode = 'P0002';
+    end if;
+
+    if invitee = auth.uid() then
+        raise exception 'You already own this trip' using errcode = '22023';
+    end if;
+
+    insert into public.itinerary_collaborators (itinerary_id, user_id, email, role, invited_by)
+    values (target_itinerary, invitee, lower(trim(invitee_email)), invitee_role, auth.uid())
+    on conflict (itinerary_id, user_id) do update set role = excluded.role
+    returning * into result;
+
+    return result;
+end;
+$$;
+
+grant execute on function public.invite_collaborator(uuid, text, text) to authenticated;
@@ -0,0 +1,23 @@
+-- Live presence and save notifications use one private Realtime channel per trip, named 'trip:<itinerary id>'.
+-- Only the owner and collaborators may join it, send on it or see who else is there.
+
+create or replace function public.can_use_trip_channel(topic text)
+returns boolean
+language sql
+stable
+as $$
+    select case
+        when topic ~ '^trip:[0-9a-fA-F-]{36}$' then public.itinerary_role(substring(topic from 6)::uuid) is not null
+        else false
+    end;
+$$;
+
+create policy "Trip members can receive on the trip channel"
+    on realtime.messages for select
+    to authenticated
+    using (public.can_use_trip_channel(realtime.topic()));
+
+create policy "Trip members can send on the trip channel"
+    on realtime.messages for insert
+    to authenticated
+    with check (public.can_use_trip_channel(realtime.topic()));
@@ -0,0 +1,60 @@
+-- Discussion on individual activities: comment threads and thumbs up / down votes.
+-- Activities are addressed by their stable id inside itinerary_data, so feedback follows them through edits and moves.
+-- Everyone on the trip (owner, editors and viewers) can take part.
+
+create table if not exists public.activity_comments (
+    id uuid primary key default gen_random_uuid(),
+    itinerary_id uuid not null references public.itineraries (id) on delete cascade,
+    activity_id text not null,
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    author_email text default (auth.jwt() ->> 'email'),
+    body text not null check (char_length(trim(body)) between 1 and 2000),
+    created_at timestamptz not null default now()
+);
+
+create index if not exists activity_comments_itinerary_id_idx on public.activity_comments (itinerary_id, created_at);
+
+create table if not exists public.activity_votes (
+    itinerary_id uuid not null references public.itineraries (id) on delete cascade,
+    activity_id text not null,
+    user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    value smallint not null check (value in (-1, 1)),
+    updated_at timestamptz not null default now(),
+    primary key (itinerary_id, activity_id, user_id)
+);
+
+-- Comments
+
+alter table public.activity_comments enable row level security;
+
+create policy "Members can read comments"
+    on public.activity_comments for select
+    using (public.itinerary_role(itinerary_id) is not null);
+
+create policy "Members can comment as themselves"
+    on public.activity_comments for insert
+    with check (user_id = auth.uid() and public.itinerary_role(itinerary_id) is not null);
+
+create policy "Authors and owners can delete comments"
+    on public.activity_comments for delete
+    using (user_id = auth.uid() or public.itinerary_role(itinerary_id) = 'owner');
+
+-- Votes (one per person per activity; changing your mind updates it)
+
+alter table public.activity_votes enable row level security;
+
+create policy "Members can read votes"
+    on public.activity_votes for select
+    using (public.itinerary_role(itinerary_id) is not null);
+
+create policy "Members can vote as themselves"
+    on public.activity_votes for insert
+    with check (user_id = auth.uid() and public.itinerary_role(itinerary_id) is not null);
+
+create policy "Members can change their vote"
+    on public.activity_votes for update
+    using (user_id = auth.uid() and public.itinerary_role(itinerary_id) is not null);
+
+create policy "Members can take back their vote"
+    on public.activity_votes for delete
+    using (user_id = auth.uid());
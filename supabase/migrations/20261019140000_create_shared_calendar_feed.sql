@@ -0,0 +1,25 @@
+-- Calendar feed for a share link (/share/<token>/calendar.ics).
+-- Same token rules as get_shared_itinerary, but calendar apps poll the feed, so fetches don't count as views.
+create or replace function public.get_shared_calendar(share_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select jsonb_build_object(
+        'id', i.id,
+        'destination', i.destination,
+        'days', i.days,
+        'itinerary_data', i.itinerary_data,
+        'budget_breakdown', i.budget_breakdown,
+        'trip_data', i.trip_data
+    )
+    from public.itinerary_shares s
+    join public.itineraries i on i.id = s.itinerary_id
+    where s.token = share_token
+      and s.revoked_at is null
+      and (s.expires_at is null or s.expires_at > now());
+$$;
+
+grant execute on function public.get_shared_calendar(text) to anon, authenticated;
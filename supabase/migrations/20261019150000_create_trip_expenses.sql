@@ -0,0 +1,37 @@
+-- What the group actually spent on the road, next to the generated estimates.
+-- An expense is booked against an activity (its stable id inside itinerary_data) or a budget category,
+-- paid by one traveler and shared equally by some of them. Travelers are positions 0 .. travelers - 1;
+-- their names live in itineraries.trip_data.travelerNames.
+
+create table if not exists public.trip_expenses (
+    id uuid primary key default gen_random_uuid(),
+    itinerary_id uuid not null references public.itineraries (id) on delete cascade,
+    description text not null check (char_length(trim(description)) between 1 and 200),
+    amount numeric(14, 2) not null check (amount > 0),
+    currency text not null, -- What was paid in; converted to the trip currency for comparisons
+    category text not null check (category in ('accommodation', 'food', 'activities', 'transport', 'misc')),
+    activity_id text,
+    paid_by smallint not null check (paid_by >= 0),
+    shared_by smallint[] not null check (cardinality(shared_by) > 0),
+    spent_on date not null default current_date,
+    created_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists trip_expenses_itinerary_id_idx on public.trip_expenses (itinerary_id, spent_on);
+
+alter table public.trip_expenses enable row level security;
+
+-- Everyone on the trip sees the spending; owner and editors keep the books
+
+create policy "Members can read expenses"
+    on public.trip_expenses for select
+    using (public.itinerary_role(itinerary_id) is not null);
+
+create policy "Editors can log expenses"
+    on public.trip_expenses for insert
+    with check (created_by = auth.uid() and public.itinerary_role(itinerary_id) in ('owner', 'editor'));
+
+create policy "Editors can delete expenses"
+    on public.trip_expenses for delete
+    using (public.itinerary_role(itinerary_id) in ('owner', 'editor'));
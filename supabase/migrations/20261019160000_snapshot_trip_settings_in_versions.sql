@@ -0,0 +1,36 @@
+-- The Budget Alert can shorten a trip or raise its limit, so a save changes days and trip_data too.
+-- Snapshot them with every version so restoring brings back the day count, dates and budget limit.
+-- Versions recorded before this migration have them as null; restoring those keeps the current settings.
+
+alter table public.itinerary_versions
+    add column if not exists days integer,
+    add column if not exists trip_data jsonb;
+
+create or replace function public.record_itinerary_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    author uuid := coalesce(auth.uid(), new.user_id);
+begin
+    insert into public.itinerary_versions (itinerary_id, author_id, author_email, itinerary_data, budget_breakdown, hotels, days, trip_data)
+    values (
+        new.id,
+        author,
+        (select email from auth.users where id = author),
+        new.itinerary_data,
+        new.budget_breakdown,
+        new.hotels,
+        new.days,
+        new.trip_data
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists itineraries_record_version on public.itineraries;
+create trigger itineraries_record_version
+    after insert or update of itinerary_data, budget_breakdown, hotels, days, trip_data on public.itineraries
+    for each row execute function public.record_itinerary_version();
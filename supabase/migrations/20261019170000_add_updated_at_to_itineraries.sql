@@ -0,0 +1,20 @@
+-- When each trip was last written. Edits queued offline remember the value they were made on and are
+-- only written back while it still matches, so they never silently overwrite a co-planner's save.
+
+alter table public.itineraries
+    add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.touch_itinerary_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+    new.updated_at := now();
+    return new;
+end;
+$$;
+
+drop trigger if exists itineraries_touch_updated_at on public.itineraries;
+create trigger itineraries_touch_updated_at
+    before update on public.itineraries
+    for each row execute function public.touch_itinerary_updated_at();
@@ -0,0 +1,54 @@
+-- Share links are public, but the names of the people splitting the trip's expenses
+-- (trip_data.travelerNames) are only for the people on the trip. Leave them out of both share functions.
+
+create or replace function public.get_shared_itinerary(share_token text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    share_id uuid;
+    trip jsonb;
+begin
+    select s.id, (to_jsonb(i) - 'user_id') #- '{trip_data,travelerNames}'
+    into share_id, trip
+    from public.itinerary_shares s
+    join public.itineraries i on i.id = s.itinerary_id
+    where s.token = share_token
+      and s.revoked_at is null
+      and (s.expires_at is null or s.expires_at > now());
+
+    if share_id is null then
+        return null;
+    end if;
+
+    update public.itinerary_shares
+    set view_count = view_count + 1, last_viewed_at = now()
+    where id = share_id;
+
+    return trip;
+end;
+$$;
+
+create or replace function public.get_shared_calendar(share_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select jsonb_build_object(
+        'id', i.id,
+        'destination', i.destination,
+        'days', i.days,
+        'itinerary_data', i.itinerary_data,
+        'budget_breakdown', i.budget_breakdown,
+        'trip_data', i.trip_data - 'travelerNames'
+    )
+    from public.itinerary_shares s
+    join public.itineraries i on i.id = s.itinerary_id
+    where s.token = share_token
+      and s.revoked_at is null
+      and (s.expires_at is null or s.expires_at > now());
+$$;